@@ -0,0 +1,68 @@
+// 活动跟踪开销基准 - 统计每个高频输入事件带来的定时器操作和核心处理次数
+// 用法: npm run build && node examples/activity-benchmark.js
+// 旧实现中每个 mousemove 都会 clearTimeout + setTimeout（每事件 2 次定时器操作）
+const { SessionLifecycle, VirtualTime, DomEnvironment } = require('../dist/cjs/index.js');
+
+const fakeWindow = new EventTarget();
+const fakeDocument = new EventTarget();
+fakeDocument.hidden = false;
+fakeDocument.querySelectorAll = () => [];
+global.window = fakeWindow;
+global.document = fakeDocument;
+
+const EVENTS = 100000;
+
+// 统计定时器调用次数的调度器
+const time = new VirtualTime(Date.UTC(2024, 0, 1));
+let timerOps = 0;
+const scheduler = {
+  setTimeout: (callback, delay) => { timerOps++; return time.setTimeout(callback, delay); },
+  clearTimeout: handle => { timerOps++; time.clearTimeout(handle); },
+  setInterval: (callback, delay) => { timerOps++; return time.setInterval(callback, delay); },
+  clearInterval: handle => { timerOps++; time.clearInterval(handle); }
+};
+
+// 统计真正到达会话核心的活动信号
+let forwarded = 0;
+const environment = new DomEnvironment({ clock: time });
+const attach = environment.attach.bind(environment);
+environment.attach = signals => attach({
+  ...signals,
+  activity: source => {
+    forwarded++;
+    signals.activity(source);
+  }
+});
+
+function run(label) {
+  timerOps = 0;
+  forwarded = 0;
+  const event = new Event('mousemove');
+  const started = process.hrtime.bigint();
+  for (let i = 0; i < EVENTS; i++) {
+    time.advance(1); // 每毫秒一个 mousemove
+    fakeDocument.dispatchEvent(event);
+  }
+  const elapsed = Number(process.hrtime.bigint() - started) / EVENTS;
+  console.log(`${label}: ${EVENTS} 个事件, 核心处理 ${forwarded} 次, ` +
+    `定时器操作 ${timerOps} 次 (${(timerOps / EVENTS).toFixed(4)}/事件), ${elapsed.toFixed(0)} ns/事件`);
+}
+
+async function main() {
+  const lifecycle = new SessionLifecycle({ clock: time, scheduler, environment });
+  lifecycle.getMethods().on_session_end(() => {});
+  time.advance(0);
+
+  run('页面可见');
+
+  fakeDocument.hidden = true;
+  fakeDocument.dispatchEvent(new Event('visibilitychange'));
+  run('页面隐藏');
+
+  await lifecycle.destroy();
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -1,9 +1,11 @@
 // Node.js 示例 - 使用 CommonJS
-const createSessionLifecycle = require('../dist/cjs/index.js').default;
+const { default: createSessionLifecycle, NodeEnvironment } = require('../dist/cjs/index.js');
 
 console.log('🚀 启动 Session Lifecycle Node.js 示例');
-console.log('注：在Node.js环境中，页面可见性和DOM事件监听不可用');
-console.log('会话生命周期主要适用于浏览器环境，但API可以在Node.js中正常工作\n');
+console.log('注：Node.js 中没有 DOM，通过 NodeEnvironment 手动上报活动、前后台切换和退出信号\n');
+
+// Node.js 环境适配器：Ctrl+C 时结束会话
+const environment = new NodeEnvironment({ processSignals: ['SIGINT'] });
 
 // 异步初始化函数
 async function initializeSession() {
@@ -11,7 +13,8 @@ async function initializeSession() {
   const sessionMethods = await createSessionLifecycle({
     debug: true,               // 启用调试模式
     heartbeatInterval: 10000,  // 10秒心跳（更快演示）
-    inactivityTimeout: 60000   // 1分钟不活动超时
+    inactivityTimeout: 60000,  // 1分钟不活动超时
+    environment                // 使用 Node.js 环境适配器
   });
 
   const { on_session_start, on_session_end, on_session_life, destroy } = sessionMethods;
@@ -65,10 +68,32 @@ async function initializeSession() {
   }
 
   console.log('Session lifecycle 监听器已注册');
-  console.log('在Node.js环境中会话会立即开始，因为没有页面可见性限制');
+  console.log('按 Ctrl+C 可提前结束会话\n');
+
+  // 模拟用户活动（如 CLI 中的键盘输入）
+  const activityTimer = setInterval(() => {
+    environment.activity('stdin');
+  }, 5000);
+
+  // 15秒后切到后台，20秒后回到前台（小于心跳间隔，静默恢复）
+  setTimeout(() => {
+    console.log('🌙 切换到后台');
+    environment.setVisible(false);
+  }, 15000);
+  setTimeout(() => {
+    console.log('☀️  回到前台');
+    environment.setVisible(true);
+  }, 20000);
+
+  process.on('SIGINT', async () => {
+    clearInterval(activityTimer);
+    await destroy();
+    process.exit(0);
+  });
 
   // 30秒后清理资源
   setTimeout(async () => {
+    clearInterval(activityTimer);
     console.log('\n🧹 清理会话生命周期资源...');
     await destroy();
     console.log('✅ 资源已清理，程序即将退出');
@@ -0,0 +1,68 @@
+// 事件上报本地测试服务 - 用于验证 reporter 的投递
+// 用法: node examples/reporter-server.js [端口]
+// 然后在页面中配置 reporter: { endpoint: 'http://localhost:8787/events' }
+const http = require('http');
+
+const port = Number(process.argv[2]) || 8787;
+
+// 设置为 true 时返回 500，用于测试重试和退避
+let failRequests = false;
+let received = 0;
+
+const server = http.createServer((req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  // 切换失败模式: curl -X POST http://localhost:8787/fail
+  if (req.method === 'POST' && req.url === '/fail') {
+    failRequests = !failRequests;
+    console.log(`⚠️  失败模式: ${failRequests ? '开启' : '关闭'}`);
+    res.writeHead(200);
+    res.end(String(failRequests));
+    return;
+  }
+
+  if (req.method !== 'POST' || req.url !== '/events') {
+    res.writeHead(404);
+    res.end();
+    return;
+  }
+
+  let body = '';
+  req.on('data', chunk => {
+    body += chunk;
+  });
+  req.on('end', () => {
+    if (failRequests) {
+      console.log('❌ 模拟投递失败 (HTTP 500)');
+      res.writeHead(500);
+      res.end();
+      return;
+    }
+
+    try {
+      const payload = JSON.parse(body);
+      received += payload.events.length;
+      console.log(`📨 收到 ${payload.events.length} 个事件 (累计 ${received})，sent_at: ${new Date(payload.sent_at).toISOString()}`);
+      payload.events.forEach(({ event, data }) => {
+        console.log(`  ${event}  session=${data.session_id} seq=${data.seq}`);
+      });
+      res.writeHead(204);
+    } catch (error) {
+      console.log('❌ 无法解析的请求体:', body);
+      res.writeHead(400);
+    }
+    res.end();
+  });
+});
+
+server.listen(port, () => {
+  console.log(`🚀 事件上报测试服务已启动: http://localhost:${port}/events`);
+});
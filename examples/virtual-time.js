@@ -0,0 +1,138 @@
+// 虚拟时间示例 - 不用真实等待即可确定性地验证会话状态转换
+// 用法: npm run build && node examples/virtual-time.js
+const { SessionLifecycle, VirtualTime, ManualActivityDetector } = require('../dist/cjs/index.js');
+
+// 在 Node.js 中用 EventTarget 模拟最小的 window / document
+const fakeWindow = new EventTarget();
+const fakeDocument = new EventTarget();
+fakeDocument.hidden = false;
+fakeDocument.querySelectorAll = () => []; // 没有 audio / video 元素
+global.window = fakeWindow;
+global.document = fakeDocument;
+
+function setHidden(hidden) {
+  fakeDocument.hidden = hidden;
+  fakeDocument.dispatchEvent(new Event('visibilitychange'));
+}
+
+function check(label, condition) {
+  console.log(`${condition ? '✅' : '❌'} ${label}`);
+  if (!condition) process.exitCode = 1;
+}
+
+async function main() {
+  const time = new VirtualTime(Date.UTC(2024, 0, 1));
+  const events = [];
+
+  const lifecycle = new SessionLifecycle({
+    heartbeatInterval: 30000,
+    inactivityTimeout: 120000,
+    clock: time,
+    scheduler: time
+  });
+
+  const { on_session_start, on_session_end, on_session_life } = lifecycle.getMethods();
+  on_session_start(data => events.push({ event: 'start', ...data }));
+  on_session_end(data => events.push({ event: 'end', ...data }));
+  on_session_life(data => events.push({ event: 'life', ...data }));
+
+  // 初始化在 setTimeout(0) 中执行
+  time.advance(0);
+  check('页面初始化触发 start (init)', events[0] && events[0].type === 'init');
+
+  // 心跳：推进 60 秒应触发两次 life
+  time.advance(60000);
+  check('60 秒内触发 2 次心跳', events.filter(e => e.event === 'life').length === 2);
+
+  // 不活动超时：最后一次活动 120 秒后结束会话
+  fakeDocument.dispatchEvent(new Event('click'));
+  time.advance(119999);
+  check('超时前会话未结束', !events.some(e => e.event === 'end'));
+  time.advance(1);
+  const end = events.find(e => e.event === 'end');
+  check('不活动 120 秒后触发 end (reason: inactivity)', end && end.reason === 'inactivity');
+  check('end 的 total_duration 为 180 秒', end && end.total_duration === 180000);
+
+  // 用户再次活动：开始新会话
+  fakeDocument.dispatchEvent(new Event('keydown'));
+  const restart = events[events.length - 1];
+  check('活动后重新开始会话 (active, reason: activity)',
+    restart.event === 'start' && restart.type === 'active' && restart.reason === 'activity');
+  check('新会话使用新的 session_id', restart.session_id !== events[0].session_id);
+
+  // 短暂隐藏（小于心跳间隔）：静默恢复，不开始新会话
+  const startsBefore = events.filter(e => e.event === 'start').length;
+  setHidden(true);
+  time.advance(10000);
+  setHidden(false);
+  check('短暂隐藏后静默恢复', events.filter(e => e.event === 'start').length === startsBefore);
+
+  // 长时间隐藏（大于心跳间隔）：恢复时开始新会话
+  setHidden(true);
+  time.advance(60000);
+  setHidden(false);
+  check('长时间隐藏后开始新会话', events.filter(e => e.event === 'start').length === startsBefore + 1);
+
+  // 活动检测器忙碌（如视频通话）时不因不活动结束会话
+  const call = new ManualActivityDetector('video-call');
+  lifecycle.addActivityDetector(call);
+  call.setBusy(true);
+  const endsDuringCall = events.filter(e => e.event === 'end').length;
+  time.advance(300000);
+  check('检测器忙碌时不因不活动结束', events.filter(e => e.event === 'end').length === endsDuringCall);
+  call.setBusy(false);
+
+  // 页面卸载：触发 end
+  const endsBefore = events.filter(e => e.event === 'end').length;
+  fakeWindow.dispatchEvent(new Event('beforeunload'));
+  check('页面卸载时触发 end (reason: beforeunload)', events.filter(e => e.event === 'end').length === endsBefore + 1 &&
+    events[events.length - 1].reason === 'beforeunload');
+
+  await lifecycle.destroy();
+  check('销毁后没有遗留定时器', time.pendingTimers() === 0);
+
+  // 跨过午夜（UTC）：结束会话并立即开始 type 为 'rollover' 的新会话
+  const midnight = Date.UTC(2024, 0, 2);
+  const nightTime = new VirtualTime(midnight - 60000);
+  const nightEvents = [];
+  const night = new SessionLifecycle({
+    heartbeatInterval: 45000,
+    splitAtMidnight: true,
+    timeZone: 'UTC',
+    clock: nightTime,
+    scheduler: nightTime
+  });
+  night.getMethods().on('*', (event, data) => nightEvents.push({ event, ...data }));
+  nightTime.advance(0);
+  nightTime.advance(120000);
+  const rolledEnd = nightEvents.find(e => e.event === 'session_end');
+  const rolledStart = nightEvents.filter(e => e.event === 'session_start')[1];
+  check('午夜结束会话 (rollover: midnight)',
+    rolledEnd && rolledEnd.rollover === 'midnight' && rolledEnd.timestamp === midnight && rolledEnd.total_duration === 60000);
+  check('午夜开始新会话 (rollover)', rolledStart && rolledStart.type === 'rollover' && rolledStart.timestamp === midnight);
+  check('心跳间隔不跨越午夜', nightEvents.filter(e => e.event === 'session_life')
+    .every(e => e.timestamp <= midnight || e.timestamp - e.duration >= midnight));
+  await night.destroy();
+
+  // 系统休眠：定时器冻结 2 小时后唤醒，会话在最后一次心跳时结束并开始新会话
+  const sleepTime = new VirtualTime(Date.UTC(2024, 0, 1));
+  const sleepEvents = [];
+  const sleeper = new SessionLifecycle({ clock: sleepTime, scheduler: sleepTime });
+  sleeper.getMethods().on('*', (event, data) => sleepEvents.push({ event, ...data }));
+  sleepTime.advance(0);
+  sleepTime.advance(60000);
+  sleepTime.suspend(2 * 60 * 60 * 1000);
+  sleepTime.advance(0);
+  const sleepEnd = sleepEvents.find(e => e.event === 'session_end');
+  const wakeStart = sleepEvents.filter(e => e.event === 'session_start')[1];
+  check('休眠后以 system_sleep 结束，结束时间为最后一次心跳',
+    sleepEnd && sleepEnd.reason === 'system_sleep' && sleepEnd.total_duration === 60000);
+  check('唤醒后开始新会话 (system_wake)', wakeStart && wakeStart.reason === 'system_wake');
+  check('心跳不包含休眠时间', sleepEvents.filter(e => e.event === 'session_life').every(e => e.duration <= 30000));
+  await sleeper.destroy();
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,53 @@
+import { ActivityDetector } from './types';
+
+/**
+ * Base class for detectors that re-evaluate their busy state on DOM events
+ */
+export abstract class DomActivityDetector implements ActivityDetector {
+  public abstract readonly name: string;
+  private busy = false;
+  private listeners: Array<{ target: EventTarget, event: string, listener: () => void }> = [];
+
+  public isBusy(): boolean {
+    return this.busy;
+  }
+
+  public attach(onChange: (busy: boolean) => void): void {
+    if (typeof document === 'undefined') return;
+
+    this.detach();
+
+    const update = () => {
+      const busy = this.evaluate();
+      if (busy === this.busy) return;
+      this.busy = busy;
+      onChange(busy);
+    };
+
+    this.events().forEach(({ target, event }) => {
+      this.listeners.push({ target, event, listener: update });
+      // 捕获阶段监听：媒体等事件不冒泡
+      target.addEventListener(event, update, true);
+    });
+
+    this.busy = this.evaluate();
+  }
+
+  public detach(): void {
+    this.listeners.forEach(({ target, event, listener }) => {
+      target.removeEventListener(event, listener, true);
+    });
+    this.listeners = [];
+    this.busy = false;
+  }
+
+  /**
+   * Events after which the busy state is re-evaluated
+   */
+  protected abstract events(): Array<{ target: EventTarget, event: string }>;
+
+  /**
+   * Compute the current busy state
+   */
+  protected abstract evaluate(): boolean;
+}
@@ -0,0 +1,21 @@
+import { DomActivityDetector } from './dom-detector';
+
+/**
+ * Busy while an element is shown in fullscreen
+ */
+export class FullscreenDetector extends DomActivityDetector {
+  public readonly name = 'fullscreen';
+
+  protected events(): Array<{ target: EventTarget, event: string }> {
+    return [
+      { target: document, event: 'fullscreenchange' },
+      // Safari
+      { target: document, event: 'webkitfullscreenchange' }
+    ];
+  }
+
+  protected evaluate(): boolean {
+    const doc = document as Document & { webkitFullscreenElement?: Element | null };
+    return !!(doc.fullscreenElement || doc.webkitFullscreenElement);
+  }
+}
@@ -0,0 +1,6 @@
+export { ActivityDetector, ActivityConfig } from './types';
+export { DomActivityDetector } from './dom-detector';
+export { MediaPlaybackDetector, MediaPlaybackDetectorOptions } from './media';
+export { FullscreenDetector } from './fullscreen';
+export { TextInputFocusDetector } from './text-input';
+export { ManualActivityDetector } from './manual';
@@ -0,0 +1,34 @@
+import { ActivityDetector } from './types';
+
+/**
+ * Detector driven by application code, e.g. busy while a video call or upload runs
+ */
+export class ManualActivityDetector implements ActivityDetector {
+  private busy = false;
+  private onChange: ((busy: boolean) => void) | null = null;
+
+  constructor(public readonly name: string = 'manual') {}
+
+  public isBusy(): boolean {
+    return this.busy;
+  }
+
+  public attach(onChange: (busy: boolean) => void): void {
+    this.onChange = onChange;
+  }
+
+  public detach(): void {
+    this.onChange = null;
+  }
+
+  /**
+   * Mark the detector as busy or idle
+   */
+  public setBusy(busy: boolean): void {
+    if (this.busy === busy) return;
+    this.busy = busy;
+    if (this.onChange) {
+      this.onChange(busy);
+    }
+  }
+}
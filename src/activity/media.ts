@@ -0,0 +1,45 @@
+import { DomActivityDetector } from './dom-detector';
+
+/**
+ * Options for the media playback detector
+ */
+export interface MediaPlaybackDetectorOptions {
+  /** Element whose audio/video descendants are watched (default: document) */
+  root?: ParentNode & EventTarget;
+  /** Ignore muted media such as background videos (default: true) */
+  ignoreMuted?: boolean;
+}
+
+const MEDIA_EVENTS = ['play', 'playing', 'pause', 'ended', 'emptied', 'volumechange'];
+
+/**
+ * Busy while an audio or video element is playing
+ */
+export class MediaPlaybackDetector extends DomActivityDetector {
+  public readonly name = 'media';
+
+  constructor(private options: MediaPlaybackDetectorOptions = {}) {
+    super();
+  }
+
+  protected events(): Array<{ target: EventTarget, event: string }> {
+    const root = this.getRoot();
+    return MEDIA_EVENTS.map(event => ({ target: root, event }));
+  }
+
+  protected evaluate(): boolean {
+    const ignoreMuted = this.options.ignoreMuted !== false;
+    const elements = this.getRoot().querySelectorAll('audio, video');
+    for (let i = 0; i < elements.length; i++) {
+      const media = elements[i] as HTMLMediaElement;
+      if (!media.paused && !media.ended && !(ignoreMuted && (media.muted || media.volume === 0))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private getRoot(): ParentNode & EventTarget {
+    return this.options.root || document;
+  }
+}
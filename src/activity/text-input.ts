@@ -0,0 +1,27 @@
+import { DomActivityDetector } from './dom-detector';
+
+const TEXT_INPUT_TYPES = ['text', 'search', 'email', 'url', 'tel', 'password', 'number'];
+
+/**
+ * Busy while a text field has focus (e.g. a user composing a long message).
+ * Not enabled by default: an idle page with a focused field would never time out.
+ */
+export class TextInputFocusDetector extends DomActivityDetector {
+  public readonly name = 'text-input';
+
+  protected events(): Array<{ target: EventTarget, event: string }> {
+    return [
+      { target: document, event: 'focusin' },
+      { target: document, event: 'focusout' }
+    ];
+  }
+
+  protected evaluate(): boolean {
+    const element = document.activeElement as HTMLElement | null;
+    if (!element || !document.hasFocus()) return false;
+    if (element.isContentEditable) return true;
+    if (element.tagName === 'TEXTAREA') return true;
+    return element.tagName === 'INPUT' &&
+      TEXT_INPUT_TYPES.indexOf((element as HTMLInputElement).type) !== -1;
+  }
+}
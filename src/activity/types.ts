@@ -0,0 +1,40 @@
+/**
+ * Reports whether something other than input events keeps the user engaged
+ * (media playback, fullscreen, a video call, ...).
+ *
+ * While any detector is busy the session is not ended for inactivity.
+ */
+export interface ActivityDetector {
+  /** Detector name, used in debug logs and as activity source */
+  readonly name: string;
+
+  /** Whether the detector currently keeps the session alive */
+  isBusy(): boolean;
+
+  /**
+   * Start detecting. Call `onChange` whenever the busy state changes.
+   */
+  attach(onChange: (busy: boolean) => void): void;
+
+  /**
+   * Stop detecting and release listeners
+   */
+  detach(): void;
+}
+
+/**
+ * Configuration of the activity sources
+ */
+export interface ActivityConfig {
+  /** DOM events counted as user activity by the default DOM environment */
+  events?: string[];
+  /** DOM events that should not count as user activity */
+  excludeEvents?: string[];
+  /** Only count DOM events inside this element (default: document) */
+  root?: EventTarget;
+  /**
+   * Detectors that keep the session alive while busy
+   * (default: media playback and fullscreen detectors)
+   */
+  detectors?: ActivityDetector[];
+}
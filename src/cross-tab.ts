@@ -0,0 +1,398 @@
+import { generateId } from './utils';
+import { Clock, Scheduler, TimerHandle, systemClock, systemScheduler } from './time';
+
+/**
+ * Configuration options for cross-tab session coordination
+ */
+export interface CrossTabConfig {
+  /** Channel / storage key shared by all tabs of the origin (default: 'session-lifecycle') */
+  channelName?: string;
+  /** Transport used to talk to other tabs (default: 'auto' = BroadcastChannel, then localStorage) */
+  transport?: 'auto' | 'broadcast-channel' | 'local-storage';
+  /** Interval in milliseconds at which each tab announces its presence (default: 5000) */
+  presenceInterval?: number;
+  /** Time in milliseconds to wait for other tabs to answer before the first session starts (default: 100) */
+  discoveryDelay?: number;
+}
+
+/**
+ * Session state shared by a tab with its peers
+ */
+export interface CrossTabSessionState {
+  /** Whether the tab currently has an active (visible, non-idle) session */
+  active: boolean;
+  /** Id of the logical session the tab belongs to */
+  sessionId: string;
+  /** Start time of the logical session */
+  startTime: number;
+  /** Highest event sequence number the tab has used for the session */
+  seq: number;
+}
+
+/**
+ * Presence information known about another tab
+ */
+export interface CrossTabPeer extends CrossTabSessionState {
+  tabId: string;
+  createdAt: number;
+  lastSeen: number;
+}
+
+/**
+ * Callbacks invoked by the coordinator when something happens in another tab
+ */
+export interface CrossTabHandlers {
+  /** User activity was detected in another tab */
+  onRemoteActivity: (timestamp: number) => void;
+  /** Another tab announced (or changed) its session state */
+  onPeerUpdate: (peer: CrossTabPeer) => void;
+  /** Another tab ended a logical session and emitted its end event */
+  onSessionEnded: (sessionId: string) => void;
+  /** The leader split a logical session; `peer` carries the session that replaces it */
+  onSessionRollover: (previousSessionId: string, peer: CrossTabPeer) => void;
+}
+
+type CrossTabMessage =
+  | { kind: 'hello'; tabId: string; createdAt: number }
+  | { kind: 'presence'; tabId: string; createdAt: number; state: CrossTabSessionState }
+  | { kind: 'activity'; tabId: string; timestamp: number }
+  | { kind: 'ended'; tabId: string; sessionId: string }
+  | { kind: 'rollover'; tabId: string; createdAt: number; previousSessionId: string; state: CrossTabSessionState }
+  | { kind: 'goodbye'; tabId: string };
+
+/**
+ * Minimal message transport between tabs
+ */
+interface CrossTabTransport {
+  post(message: CrossTabMessage): void;
+  close(): void;
+}
+
+/**
+ * Create a BroadcastChannel based transport, or null if unsupported
+ */
+function createBroadcastChannelTransport(
+  channelName: string,
+  onMessage: (message: CrossTabMessage) => void
+): CrossTabTransport | null {
+  if (typeof BroadcastChannel === 'undefined') return null;
+
+  const channel = new BroadcastChannel(channelName);
+  channel.onmessage = (event: MessageEvent) => {
+    onMessage(event.data as CrossTabMessage);
+  };
+
+  return {
+    post: (message) => channel.postMessage(message),
+    close: () => channel.close()
+  };
+}
+
+/**
+ * Create a localStorage based transport (storage events), or null if unsupported
+ */
+function createLocalStorageTransport(
+  channelName: string,
+  onMessage: (message: CrossTabMessage) => void
+): CrossTabTransport | null {
+  if (typeof window === 'undefined') return null;
+
+  let storage: Storage;
+  try {
+    storage = window.localStorage;
+    if (!storage) return null;
+  } catch (error) {
+    return null; // 隐私模式等情况下访问 localStorage 会抛错
+  }
+
+  const key = `${channelName}:message`;
+  const listener = (event: StorageEvent) => {
+    if (event.key !== key || !event.newValue) return;
+    try {
+      onMessage(JSON.parse(event.newValue).message as CrossTabMessage);
+    } catch (error) {
+      // 忽略无法解析的消息
+    }
+  };
+
+  window.addEventListener('storage', listener);
+
+  return {
+    post: (message) => {
+      try {
+        // nonce 保证相同内容的消息也能触发 storage 事件
+        storage.setItem(key, JSON.stringify({ message, nonce: generateId() }));
+      } catch (error) {
+        // 存储已满或不可用时丢弃消息
+      }
+    },
+    close: () => window.removeEventListener('storage', listener)
+  };
+}
+
+/**
+ * Coordinates one logical session across all tabs of an origin.
+ *
+ * Every tab announces its session state; the oldest tab with an active session
+ * is the leader and is the only one that emits heartbeats.
+ */
+export class CrossTabCoordinator {
+  private readonly tabId = generateId();
+  private readonly createdAt: number;
+  private readonly config: Required<CrossTabConfig>;
+  private transport: CrossTabTransport | null = null;
+  private peers = new Map<string, CrossTabPeer>();
+  private localState: CrossTabSessionState = { active: false, sessionId: '', startTime: 0, seq: 0 };
+  private presenceTimer: TimerHandle | null = null;
+  private lastActivityBroadcast = 0;
+  // 最近结束的逻辑会话，避免同一会话触发多次 end
+  private endedSessions: string[] = [];
+
+  constructor(
+    config: CrossTabConfig,
+    private handlers: CrossTabHandlers,
+    private clock: Clock = systemClock,
+    private scheduler: Scheduler = systemScheduler
+  ) {
+    this.createdAt = clock.now();
+    this.config = {
+      channelName: 'session-lifecycle',
+      transport: 'auto',
+      presenceInterval: 5000,
+      discoveryDelay: 100,
+      ...config
+    };
+  }
+
+  /**
+   * Time to wait for peers before starting the first session
+   */
+  public get discoveryDelay(): number {
+    return this.config.discoveryDelay;
+  }
+
+  /**
+   * Interval at which tabs announce their presence
+   */
+  public get presenceInterval(): number {
+    return this.config.presenceInterval;
+  }
+
+  /**
+   * Open the transport and announce this tab
+   * @returns True if a transport is available
+   */
+  public start(): boolean {
+    if (this.transport) return true;
+
+    const onMessage = (message: CrossTabMessage) => this.handleMessage(message);
+    const { channelName, transport } = this.config;
+
+    if (transport !== 'local-storage') {
+      this.transport = createBroadcastChannelTransport(channelName, onMessage);
+    }
+    if (!this.transport && transport !== 'broadcast-channel') {
+      this.transport = createLocalStorageTransport(channelName, onMessage);
+    }
+    if (!this.transport) return false;
+
+    this.post({ kind: 'hello', tabId: this.tabId, createdAt: this.createdAt });
+
+    this.presenceTimer = this.scheduler.setInterval(() => {
+      this.prunePeers();
+      this.announce();
+    }, this.config.presenceInterval);
+
+    return true;
+  }
+
+  /**
+   * Say goodbye to the other tabs and close the transport
+   */
+  public stop(): void {
+    if (this.presenceTimer) {
+      this.scheduler.clearInterval(this.presenceTimer);
+      this.presenceTimer = null;
+    }
+    if (this.transport) {
+      this.post({ kind: 'goodbye', tabId: this.tabId });
+      this.transport.close();
+      this.transport = null;
+    }
+    this.peers.clear();
+  }
+
+  /**
+   * Update the session state of this tab and broadcast it if it changed
+   */
+  public updateLocalState(state: CrossTabSessionState): void {
+    const previous = this.localState;
+    this.localState = { ...state };
+
+    if (previous.active !== state.active ||
+        previous.sessionId !== state.sessionId ||
+        previous.startTime !== state.startTime ||
+        previous.seq !== state.seq) {
+      this.announce();
+    }
+  }
+
+  /**
+   * Share a user activity signal with the other tabs (throttled to once per second)
+   */
+  public broadcastActivity(timestamp: number): void {
+    if (timestamp - this.lastActivityBroadcast < 1000) return;
+    this.lastActivityBroadcast = timestamp;
+    this.post({ kind: 'activity', tabId: this.tabId, timestamp });
+  }
+
+  /**
+   * Tell the other tabs that this tab ended a logical session
+   */
+  public broadcastEnded(sessionId: string): void {
+    this.rememberEnded(sessionId);
+    this.post({ kind: 'ended', tabId: this.tabId, sessionId });
+  }
+
+  /**
+   * Tell the other tabs that this tab split a logical session; call after the
+   * local state was updated to the session that replaces it
+   */
+  public broadcastRollover(previousSessionId: string): void {
+    this.rememberEnded(previousSessionId);
+    this.post({
+      kind: 'rollover',
+      tabId: this.tabId,
+      createdAt: this.createdAt,
+      previousSessionId,
+      state: this.localState
+    });
+  }
+
+  /**
+   * Check whether a logical session was already ended by any tab
+   */
+  public isSessionEnded(sessionId: string): boolean {
+    return this.endedSessions.indexOf(sessionId) !== -1;
+  }
+
+  /**
+   * Find the oldest active session run by another tab
+   */
+  public getActivePeerSession(): CrossTabPeer | null {
+    let oldest: CrossTabPeer | null = null;
+    this.getLivePeers().forEach(peer => {
+      if (peer.active && peer.sessionId && (!oldest || peer.startTime < oldest.startTime)) {
+        oldest = peer;
+      }
+    });
+    return oldest;
+  }
+
+  /**
+   * Check whether any other tab still has an active session
+   */
+  public hasOtherActiveTabs(): boolean {
+    return this.getLivePeers().some(peer => peer.active);
+  }
+
+  /**
+   * Check whether this tab is the leader, i.e. the oldest tab with an active session
+   */
+  public isLeader(): boolean {
+    if (!this.localState.active) return false;
+
+    return !this.getLivePeers().some(peer => peer.active && (
+      peer.createdAt < this.createdAt ||
+      (peer.createdAt === this.createdAt && peer.tabId < this.tabId)
+    ));
+  }
+
+  /**
+   * Handle a message received from another tab
+   */
+  private handleMessage(message: CrossTabMessage): void {
+    if (!message || message.tabId === this.tabId) return;
+
+    switch (message.kind) {
+      case 'hello':
+        // 新标签页加入时立即告知当前状态
+        this.announce();
+        break;
+      case 'presence':
+        this.handlers.onPeerUpdate(this.updatePeer(message.tabId, message.createdAt, message.state));
+        break;
+      case 'rollover': {
+        const peer = this.updatePeer(message.tabId, message.createdAt, message.state);
+        this.rememberEnded(message.previousSessionId);
+        this.handlers.onSessionRollover(message.previousSessionId, peer);
+        break;
+      }
+      case 'activity':
+        this.handlers.onRemoteActivity(message.timestamp);
+        break;
+      case 'ended':
+        this.rememberEnded(message.sessionId);
+        this.handlers.onSessionEnded(message.sessionId);
+        break;
+      case 'goodbye':
+        this.peers.delete(message.tabId);
+        break;
+    }
+  }
+
+  private updatePeer(tabId: string, createdAt: number, state: CrossTabSessionState): CrossTabPeer {
+    const peer: CrossTabPeer = { ...state, tabId, createdAt, lastSeen: this.clock.now() };
+    this.peers.set(tabId, peer);
+    return peer;
+  }
+
+  private rememberEnded(sessionId: string): void {
+    if (this.isSessionEnded(sessionId)) return;
+    this.endedSessions.push(sessionId);
+    if (this.endedSessions.length > 20) {
+      this.endedSessions.shift();
+    }
+  }
+
+  /**
+   * Broadcast the presence of this tab
+   */
+  private announce(): void {
+    this.post({
+      kind: 'presence',
+      tabId: this.tabId,
+      createdAt: this.createdAt,
+      state: this.localState
+    });
+  }
+
+  /**
+   * Get the peers that announced themselves recently
+   */
+  private getLivePeers(): CrossTabPeer[] {
+    this.prunePeers();
+    return Array.from(this.peers.values());
+  }
+
+  /**
+   * Forget peers that have not announced themselves for three presence intervals
+   */
+  private prunePeers(): void {
+    const expiry = this.clock.now() - this.config.presenceInterval * 3;
+    this.peers.forEach((peer, tabId) => {
+      if (peer.lastSeen < expiry) {
+        this.peers.delete(tabId);
+      }
+    });
+  }
+
+  private post(message: CrossTabMessage): void {
+    if (!this.transport) return;
+    try {
+      this.transport.post(message);
+    } catch (error) {
+      console.error('Error posting cross-tab message:', error);
+    }
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Device class used for config profiles, resume policies and analytics
+ */
+export type DeviceClass = 'mobile' | 'tablet' | 'desktop';
+
+/**
+ * How the device class was determined
+ * - client_hints: User-Agent Client Hints (navigator.userAgentData)
+ * - user_agent: User-Agent string
+ * - detector: the configured detector function
+ * - config: the class forced in the config
+ * - default: no browser environment, assumed desktop
+ */
+export type DeviceInfoSource = 'client_hints' | 'user_agent' | 'detector' | 'config' | 'default';
+
+/**
+ * Device information attached to start payloads and returned by getDeviceInfo()
+ */
+export interface DeviceInfo {
+  device_class: DeviceClass;
+  source: DeviceInfoSource;
+  /** Platform reported by Client Hints (e.g. 'Android', 'Windows'), null when unavailable */
+  platform: string | null;
+  /** Whether the device has a touch screen */
+  touch: boolean;
+}
+
+/**
+ * Custom device classification
+ * @param detected - Result of the built-in detection
+ * @returns Device class to use, or nothing to keep the detected one
+ */
+export type DeviceDetector = (detected: DeviceInfo) => DeviceClass | null | void;
+
+/**
+ * Subset of NavigatorUAData (not yet in the TypeScript DOM typings)
+ */
+interface NavigatorUADataLike {
+  readonly mobile: boolean;
+  readonly platform: string;
+}
+
+const MOBILE_KEYWORDS = ['iphone', 'ipod', 'windows phone', 'blackberry', 'opera mini', 'iemobile', 'mobile'];
+const TABLET_KEYWORDS = ['ipad', 'tablet', 'kindle', 'silk', 'playbook'];
+
+function getUserAgentData(): NavigatorUADataLike | null {
+  if (typeof navigator === 'undefined') return null;
+  const data = (navigator as Navigator & { userAgentData?: NavigatorUADataLike }).userAgentData;
+  return data && typeof data.mobile === 'boolean' ? data : null;
+}
+
+function hasTouchScreen(): boolean {
+  if (typeof navigator === 'undefined') return false;
+  return navigator.maxTouchPoints > 0 ||
+    (typeof window !== 'undefined' && 'ontouchstart' in window);
+}
+
+/**
+ * Classify a User-Agent string
+ */
+export function classifyUserAgent(userAgent: string, maxTouchPoints = 0): DeviceClass {
+  const ua = userAgent.toLowerCase();
+
+  // iPadOS 13+ 使用桌面版 Safari 的 UA，通过触摸点数区分
+  if (TABLET_KEYWORDS.some(keyword => ua.includes(keyword)) ||
+      (ua.includes('macintosh') && maxTouchPoints > 1)) {
+    return 'tablet';
+  }
+  // Android 平板的 UA 不含 'mobile'
+  if (ua.includes('android')) {
+    return ua.includes('mobile') ? 'mobile' : 'tablet';
+  }
+  return MOBILE_KEYWORDS.some(keyword => ua.includes(keyword)) ? 'mobile' : 'desktop';
+}
+
+/**
+ * Detect the device with the built-in heuristics: Client Hints when available,
+ * otherwise the User-Agent string
+ */
+export function detectDevice(): DeviceInfo {
+  if (typeof navigator === 'undefined') {
+    return { device_class: 'desktop', source: 'default', platform: null, touch: false };
+  }
+
+  const touch = hasTouchScreen();
+  const hints = getUserAgentData();
+  if (hints) {
+    // Client Hints 只区分 mobile；Android 上的非 mobile 设备视为平板
+    const deviceClass: DeviceClass = hints.mobile
+      ? 'mobile'
+      : hints.platform === 'Android' ? 'tablet' : 'desktop';
+    return { device_class: deviceClass, source: 'client_hints', platform: hints.platform || null, touch };
+  }
+
+  return {
+    device_class: classifyUserAgent(navigator.userAgent || '', navigator.maxTouchPoints || 0),
+    source: 'user_agent',
+    platform: null,
+    touch
+  };
+}
+
+/**
+ * Resolve the device info from the config override
+ * @param override - Forced class, detector function, or null for the built-in detection
+ */
+export function resolveDeviceInfo(override: DeviceClass | DeviceDetector | null): DeviceInfo {
+  const detected = detectDevice();
+  if (!override) return detected;
+
+  if (typeof override === 'function') {
+    try {
+      const deviceClass = override(detected);
+      return deviceClass ? { ...detected, device_class: deviceClass, source: 'detector' } : detected;
+    } catch (error) {
+      console.error('Error in device detector:', error);
+      return detected;
+    }
+  }
+
+  return { ...detected, device_class: override, source: 'config' };
+}
@@ -0,0 +1,296 @@
+import { Scheduler, TimerHandle, systemScheduler } from './time';
+
+/**
+ * Map of event names to listener argument tuples
+ */
+export type EventMap = { [event: string]: unknown[] };
+
+/**
+ * Listener for a single event of an event map; may return a promise
+ */
+export type EventListener<Events extends EventMap, K extends keyof Events> = (...args: Events[K]) => void | Promise<void>;
+
+/**
+ * Listener receiving every event, prefixed with the event name
+ */
+export type WildcardListener<Events extends EventMap> = (
+  event: keyof Events & string,
+  ...args: Events[keyof Events]
+) => void | Promise<void>;
+
+/**
+ * Function removing the listener it was returned for
+ */
+export type Unsubscribe = () => void;
+
+/**
+ * Called when a listener throws, rejects or times out
+ */
+export type ListenerErrorHandler = (error: unknown, event: string, args: unknown[]) => void;
+
+/**
+ * How the listeners of one event are run
+ * - parallel: all listeners are called at once, their promises are awaited together
+ * - sequential: each listener is called after the previous one's promise settled
+ */
+export type DispatchMode = 'parallel' | 'sequential';
+
+/**
+ * Options of the emitter's dispatch pipeline
+ */
+export interface EmitterOptions {
+  /** How the listeners of one event are run (default: 'parallel') */
+  mode?: DispatchMode;
+  /** Time in milliseconds after which a pending listener promise is abandoned, 0 for none (default: 0) */
+  timeout?: number;
+  /** Called when a listener fails (default: console.error) */
+  onError?: ListenerErrorHandler;
+  /** Timer functions for listener timeouts (default: global timers) */
+  scheduler?: Scheduler;
+}
+
+interface ListenerEntry {
+  listener: (...args: any[]) => unknown;
+  once: boolean;
+}
+
+const WILDCARD = '*';
+
+/**
+ * Typed event emitter with an async-aware dispatch pipeline.
+ *
+ * Listeners are called synchronously; returned promises are awaited (with an
+ * optional timeout) and tracked until they settle. Listeners registered with
+ * `'*'` receive every event after its own listeners. A failing listener never
+ * prevents the others from running.
+ */
+export class TypedEventEmitter<Events extends EventMap> {
+  private listeners: { [event: string]: ListenerEntry[] } = {};
+  private inFlight = new Set<Promise<void>>();
+  private readonly mode: DispatchMode;
+  private readonly timeout: number;
+  private readonly onError: ListenerErrorHandler;
+  private readonly scheduler: Scheduler;
+
+  constructor(options: EmitterOptions = {}) {
+    this.mode = options.mode || 'parallel';
+    this.timeout = options.timeout || 0;
+    this.onError = options.onError || defaultErrorHandler;
+    this.scheduler = options.scheduler || systemScheduler;
+  }
+
+  /**
+   * Register a listener
+   * @returns Function that removes the listener
+   */
+  public on<K extends keyof Events & string>(event: K, listener: EventListener<Events, K>): Unsubscribe;
+  public on(event: '*', listener: WildcardListener<Events>): Unsubscribe;
+  public on(event: string, listener: (...args: any[]) => unknown): Unsubscribe {
+    return this.add(event, listener, false);
+  }
+
+  /**
+   * Register a listener that is removed after its first call
+   * @returns Function that removes the listener
+   */
+  public once<K extends keyof Events & string>(event: K, listener: EventListener<Events, K>): Unsubscribe;
+  public once(event: '*', listener: WildcardListener<Events>): Unsubscribe;
+  public once(event: string, listener: (...args: any[]) => unknown): Unsubscribe {
+    return this.add(event, listener, true);
+  }
+
+  /**
+   * Remove a listener, or every listener of the event when none is given
+   */
+  public off<K extends keyof Events & string>(event: K, listener?: EventListener<Events, K>): void;
+  public off(event: '*', listener?: WildcardListener<Events>): void;
+  public off(event: string, listener?: (...args: any[]) => unknown): void {
+    if (!listener) {
+      delete this.listeners[event];
+      return;
+    }
+
+    const entries = this.listeners[event];
+    if (!entries) return;
+
+    const index = entries.findIndex(entry => entry.listener === listener);
+    if (index !== -1) {
+      entries.splice(index, 1);
+    }
+  }
+
+  /**
+   * Dispatch an event. Synchronous listeners run before this returns.
+   * @returns Promise that resolves once every listener has settled or timed out
+   */
+  public emit<K extends keyof Events & string>(event: K, ...args: Events[K]): Promise<void> {
+    return this.track(this.run(event, args));
+  }
+
+  /**
+   * Wait for in-flight listeners
+   * @param timeout - Maximum time to wait in milliseconds (default: no limit)
+   * @returns Whether every listener settled before the deadline
+   */
+  public whenIdle(timeout?: number): Promise<boolean> {
+    if (this.inFlight.size === 0) return Promise.resolve(true);
+
+    const settled = Promise.all(Array.from(this.inFlight)).then(() => true);
+    if (typeof timeout !== 'number') return settled;
+
+    let timer: TimerHandle | null = null;
+    const deadline = new Promise<boolean>((resolve) => {
+      timer = this.scheduler.setTimeout(() => resolve(false), timeout);
+    });
+
+    return Promise.race([settled, deadline]).then(result => {
+      this.scheduler.clearTimeout(timer);
+      return result;
+    });
+  }
+
+  /**
+   * Number of listeners registered for an event
+   */
+  public listenerCount(event: (keyof Events & string) | '*'): number {
+    const entries = this.listeners[event];
+    return entries ? entries.length : 0;
+  }
+
+  /**
+   * Remove every listener of every event
+   */
+  public removeAllListeners(): void {
+    this.listeners = {};
+  }
+
+  private add(event: string, listener: (...args: any[]) => unknown, once: boolean): Unsubscribe {
+    if (typeof listener !== 'function') {
+      throw new Error('Callback must be a function');
+    }
+
+    const entry: ListenerEntry = { listener, once };
+    (this.listeners[event] = this.listeners[event] || []).push(entry);
+
+    return () => {
+      const entries = this.listeners[event];
+      if (!entries) return;
+      const index = entries.indexOf(entry);
+      if (index !== -1) {
+        entries.splice(index, 1);
+      }
+    };
+  }
+
+  private run(event: string, args: unknown[]): Promise<void> {
+    return this.runCalls(event, args, this.collect(event, args));
+  }
+
+  /**
+   * Build the calls for an event: its own listeners, then wildcard listeners
+   */
+  private collect(event: string, args: unknown[]): Array<() => unknown> {
+    const calls = this.take(event).map(entry => () => entry.listener(...args));
+    this.take(WILDCARD).forEach(entry => {
+      calls.push(() => entry.listener(event, ...args));
+    });
+    return calls;
+  }
+
+  private runCalls(event: string, args: unknown[], calls: Array<() => unknown>): Promise<void> {
+    if (this.mode === 'sequential') {
+      let index = 0;
+      // 同步监听器连续执行，遇到返回 Promise 的监听器时等待其完成再继续
+      const next = (): Promise<void> | void => {
+        while (index < calls.length) {
+          const pending = this.invoke(event, args, calls[index++]);
+          if (pending) return pending.then(next);
+        }
+      };
+      return Promise.resolve(next());
+    }
+
+    const pending = calls
+      .map(call => this.invoke(event, args, call))
+      .filter((promise): promise is Promise<void> => !!promise);
+    return Promise.all(pending).then(() => undefined);
+  }
+
+  /**
+   * Call a listener; returns a promise (that never rejects) if it returned one
+   */
+  private invoke(event: string, args: unknown[], call: () => unknown): Promise<void> | null {
+    let result: unknown;
+    try {
+      result = call();
+    } catch (error) {
+      this.reportError(error, event, args);
+      return null;
+    }
+
+    if (!isThenable(result)) return null;
+
+    return new Promise<void>((resolve) => {
+      let timer: TimerHandle | null = null;
+      let done = false;
+      const finish = (error?: unknown, failed = false) => {
+        if (done) return;
+        done = true;
+        if (timer !== null) {
+          this.scheduler.clearTimeout(timer);
+        }
+        if (failed) {
+          this.reportError(error, event, args);
+        }
+        resolve();
+      };
+
+      if (this.timeout > 0) {
+        timer = this.scheduler.setTimeout(() => {
+          finish(new Error(`Listener for ${event} timed out after ${this.timeout}ms`), true);
+        }, this.timeout);
+      }
+
+      result.then(() => finish(), error => finish(error, true));
+    });
+  }
+
+  private reportError(error: unknown, event: string, args: unknown[]): void {
+    try {
+      this.onError(error, event, args);
+    } catch (hookError) {
+      console.error('Error in listener error handler:', hookError);
+    }
+  }
+
+  /**
+   * Remember a dispatch until it settles
+   */
+  private track(promise: Promise<void>): Promise<void> {
+    this.inFlight.add(promise);
+    promise.then(() => this.inFlight.delete(promise));
+    return promise;
+  }
+
+  /**
+   * Snapshot the listeners of an event, dropping `once` listeners before they run
+   */
+  private take(event: string): ListenerEntry[] {
+    const entries = this.listeners[event];
+    if (!entries || entries.length === 0) return [];
+
+    const snapshot = entries.slice();
+    if (snapshot.some(entry => entry.once)) {
+      this.listeners[event] = entries.filter(entry => !entry.once);
+    }
+    return snapshot;
+  }
+}
+
+function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return !!value && typeof (value as PromiseLike<unknown>).then === 'function';
+}
+
+function defaultErrorHandler(error: unknown, event: string): void {
+  console.error(`Error in ${event} listener:`, error);
+}
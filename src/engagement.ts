@@ -0,0 +1,145 @@
+/**
+ * Time breakdown of a session, included in life and end payloads
+ */
+export interface SessionEngagement {
+  /** Time the session was active with recent user activity */
+  active_ms: number;
+  /** Time the session was active without user activity for longer than the idle threshold */
+  idle_ms: number;
+  /** Time the session was paused (page hidden) before resuming */
+  hidden_ms: number;
+  /** Number of pauses in the session */
+  pause_count: number;
+  /** Number of heartbeats emitted in the session */
+  heartbeat_count: number;
+}
+
+/**
+ * Tracks how the time of a session splits into active, idle and hidden time.
+ *
+ * Time is attributed lazily: only state changes and payload snapshots settle
+ * the time elapsed since the previous settlement.
+ */
+export class EngagementTracker {
+  private activeMs = 0;
+  private idleMs = 0;
+  private hiddenMs = 0;
+  private pauseCount = 0;
+  private heartbeatCount = 0;
+
+  /** Time up to which active/idle time has been attributed, null while paused */
+  private settledAt: number | null = null;
+  private lastActivity = 0;
+  private pauseStart = 0;
+
+  // 最近一次活动以来已计入的时间，会话因不活动结束时从统计中扣除
+  private activeSinceActivity = 0;
+  private idleSinceActivity = 0;
+
+  constructor(private idleThreshold: number) {}
+
+  /**
+   * Start tracking a new session
+   */
+  public reset(now: number): void {
+    this.activeMs = 0;
+    this.idleMs = 0;
+    this.hiddenMs = 0;
+    this.pauseCount = 0;
+    this.heartbeatCount = 0;
+    this.settledAt = now;
+    this.pauseStart = 0;
+    this.markActivity(now);
+  }
+
+  /**
+   * Record user activity (also restarts the trailing idle window)
+   */
+  public activity(now: number): void {
+    this.settle(now);
+    this.markActivity(now);
+  }
+
+  /**
+   * Record that the session was paused
+   */
+  public pause(now: number): void {
+    this.settle(now);
+    this.settledAt = null;
+    this.pauseStart = now;
+    this.pauseCount++;
+  }
+
+  /**
+   * Record that a paused session resumed
+   */
+  public resume(now: number): void {
+    if (this.settledAt !== null) return;
+
+    this.hiddenMs += Math.max(now - this.pauseStart, 0);
+    this.settledAt = now;
+    this.markActivity(now);
+  }
+
+  /**
+   * Record an emitted heartbeat
+   */
+  public heartbeat(): void {
+    this.heartbeatCount++;
+  }
+
+  /**
+   * Get the breakdown of the session up to `now`
+   */
+  public snapshot(now: number): SessionEngagement {
+    this.settle(now);
+    return {
+      active_ms: this.activeMs,
+      idle_ms: this.idleMs,
+      hidden_ms: this.hiddenMs,
+      pause_count: this.pauseCount,
+      heartbeat_count: this.heartbeatCount
+    };
+  }
+
+  /**
+   * Get the breakdown of a session that ended because of inactivity.
+   * Everything since the last activity is reported as the trailing idle window
+   * instead of active or idle time.
+   */
+  public snapshotForInactivity(now: number): SessionEngagement & { trailing_idle_ms: number } {
+    this.settle(now);
+    const trailing = this.activeSinceActivity + this.idleSinceActivity;
+    return {
+      active_ms: this.activeMs - this.activeSinceActivity,
+      idle_ms: this.idleMs - this.idleSinceActivity,
+      hidden_ms: this.hiddenMs,
+      pause_count: this.pauseCount,
+      heartbeat_count: this.heartbeatCount,
+      trailing_idle_ms: trailing
+    };
+  }
+
+  private markActivity(now: number): void {
+    this.lastActivity = now;
+    this.activeSinceActivity = 0;
+    this.idleSinceActivity = 0;
+  }
+
+  /**
+   * Attribute the time since the last settlement to active and idle time
+   */
+  private settle(now: number): void {
+    if (this.settledAt === null || now <= this.settledAt) return;
+
+    const elapsed = now - this.settledAt;
+    const idleStart = Math.max(this.settledAt, this.lastActivity + this.idleThreshold);
+    const idle = Math.min(Math.max(now - idleStart, 0), elapsed);
+
+    this.activeMs += elapsed - idle;
+    this.idleMs += idle;
+    this.activeSinceActivity += elapsed - idle;
+    this.idleSinceActivity += idle;
+    this.settledAt = now;
+  }
+}
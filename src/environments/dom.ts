@@ -0,0 +1,174 @@
+import { EnvironmentAdapter, EnvironmentSignals } from './types';
+import { Clock, systemClock } from '../time';
+
+/**
+ * Options for the browser DOM environment
+ */
+export interface DomEnvironmentOptions {
+  /** Also listen to mobile lifecycle events (orientation, pageshow/pagehide, focus) (default: false) */
+  mobile?: boolean;
+  /** DOM events counted as user activity (default: click, scroll, keydown, touch, mouse and gesture events) */
+  activityEvents?: string[];
+  /** DOM events removed from the activity events */
+  excludeActivityEvents?: string[];
+  /** Only count activity events inside this element (default: document) */
+  activityRoot?: EventTarget;
+  /** Minimum time in milliseconds between two reported activity signals (default: 1000) */
+  activityThrottle?: number;
+  /** Time source for activity throttling (default: Date.now) */
+  clock?: Clock;
+}
+
+/**
+ * Default DOM events counted as user activity
+ */
+export const DEFAULT_ACTIVITY_EVENTS = [
+  // 基础事件（所有设备）
+  'click', 'scroll', 'keydown',
+  // 移动端触摸事件
+  'touchstart', 'touchmove', 'touchend', 'touchcancel',
+  // 桌面端鼠标事件
+  'mousemove', 'mousedown', 'mouseup',
+  // 手势事件（iOS Safari）
+  'gesturestart', 'gesturechange', 'gestureend'
+];
+
+type ListenerEntry = { element: EventTarget, event: string, listener: () => void };
+
+/**
+ * Default environment: page visibility, DOM input events and page lifecycle events
+ */
+export class DomEnvironment implements EnvironmentAdapter {
+  public readonly name = 'dom';
+  private listeners: ListenerEntry[] = [];
+  // 活动监听器在页面隐藏时移除，可见时重新注册
+  private activityListeners: ListenerEntry[] = [];
+  private activityListening = false;
+  private lastActivitySignal = -Infinity;
+
+  constructor(private options: DomEnvironmentOptions = {}) {}
+
+  /**
+   * Check whether the DOM environment is available
+   */
+  public static isSupported(): boolean {
+    return typeof window !== 'undefined' && typeof document !== 'undefined';
+  }
+
+  public isVisible(): boolean {
+    return typeof document === 'undefined' ? true : !document.hidden;
+  }
+
+  public isOnline(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine !== false;
+  }
+
+  public attach(signals: EnvironmentSignals): void {
+    if (!DomEnvironment.isSupported()) return;
+
+    this.detach();
+
+    // 页面可见性变化
+    this.listen(document, 'visibilitychange', () => {
+      this.updateActivityListening();
+      signals.visibilityChange(!document.hidden, 'visibilitychange');
+    });
+
+    this.setupActivityListeners(signals);
+
+    // 网络状态变化
+    const networkHandler = () => signals.networkChange(this.isOnline());
+    this.listen(window, 'online', networkHandler);
+    this.listen(window, 'offline', networkHandler);
+
+    // 只在移动设备上注册移动端特定的生命周期事件
+    if (this.options.mobile) {
+      this.setupMobileLifecycleListeners(signals);
+    }
+
+    // 页面卸载
+    this.listen(window, 'beforeunload', () => signals.unload('beforeunload'));
+    this.listen(window, 'pagehide', () => signals.unload('pagehide'));
+  }
+
+  public detach(): void {
+    this.listeners.forEach(({ element, event, listener }) => {
+      element.removeEventListener(event, listener);
+    });
+    this.listeners = [];
+    this.setActivityListening(false);
+    this.activityListeners = [];
+  }
+
+  /**
+   * Set up user activity listeners
+   */
+  private setupActivityListeners(signals: EnvironmentSignals): void {
+    const { activityEvents = DEFAULT_ACTIVITY_EVENTS, excludeActivityEvents = [] } = this.options;
+    const root = this.options.activityRoot || document;
+    const throttle = typeof this.options.activityThrottle === 'number' ? this.options.activityThrottle : 1000;
+    const clock = this.options.clock || systemClock;
+
+    const events = activityEvents.filter(eventName => excludeActivityEvents.indexOf(eventName) === -1);
+
+    this.activityListeners = events.map(eventName => ({
+      element: root,
+      event: eventName,
+      listener: () => {
+        // mousemove 等高频事件只比较时间戳，节流后再上报
+        const now = clock.now();
+        if (now - this.lastActivitySignal < throttle) return;
+        this.lastActivitySignal = now;
+        signals.activity(eventName);
+      }
+    }));
+    this.updateActivityListening();
+  }
+
+  /**
+   * Register activity listeners while the page is visible, remove them while hidden
+   */
+  private updateActivityListening(): void {
+    this.setActivityListening(!document.hidden);
+  }
+
+  private setActivityListening(listening: boolean): void {
+    if (this.activityListening === listening) return;
+    this.activityListening = listening;
+
+    this.activityListeners.forEach(({ element, event, listener }) => {
+      if (listening) {
+        element.addEventListener(event, listener, { passive: true, capture: false });
+      } else {
+        element.removeEventListener(event, listener);
+      }
+    });
+  }
+
+  /**
+   * Set up mobile-specific lifecycle listeners
+   */
+  private setupMobileLifecycleListeners(signals: EnvironmentSignals): void {
+    // 设备方向变化视为用户活动
+    this.listen(window, 'orientationchange', () => signals.activity('orientationchange'));
+
+    // 页面显示/隐藏（移动端更可靠）
+    this.listen(window, 'pageshow', () => {
+      this.setActivityListening(true);
+      signals.visibilityChange(true, 'pageshow');
+    });
+    this.listen(window, 'pagehide', () => {
+      this.setActivityListening(false);
+      signals.visibilityChange(false, 'pagehide');
+    });
+
+    // 获得焦点视为用户活动；失去焦点时不立即暂停，等待visibilitychange或pagehide
+    this.listen(window, 'focus', () => signals.activity('focus'));
+  }
+
+  private listen(element: EventTarget, event: string, listener: () => void): void {
+    this.listeners.push({ element, event, listener });
+    // 使用 passive 监听器提高移动端性能
+    element.addEventListener(event, listener, { passive: true, capture: false });
+  }
+}
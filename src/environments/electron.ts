@@ -0,0 +1,151 @@
+import { EnvironmentAdapter, EnvironmentSignals } from './types';
+
+/**
+ * Minimal event emitter shape shared by Electron objects
+ */
+export interface ElectronEmitterLike {
+  on(event: string, listener: (...args: any[]) => void): unknown;
+  removeListener(event: string, listener: (...args: any[]) => void): unknown;
+}
+
+/**
+ * Subset of Electron's BrowserWindow used by the Electron environment
+ */
+export interface BrowserWindowLike extends ElectronEmitterLike {
+  isVisible(): boolean;
+  isMinimized(): boolean;
+  isFocused(): boolean;
+}
+
+/**
+ * Options for the Electron environment
+ */
+export interface ElectronEnvironmentOptions {
+  /** Window whose focus and visibility drive the session */
+  window: BrowserWindowLike;
+  /** Electron `powerMonitor` (suspend/resume, lock-screen/unlock-screen) */
+  powerMonitor?: ElectronEmitterLike;
+  /** Electron `app` (before-quit) */
+  app?: ElectronEmitterLike;
+  /** Treat a window that lost focus as hidden (default: true) */
+  blurAsHidden?: boolean;
+}
+
+/**
+ * Environment for the Electron main process.
+ *
+ * Visibility follows the window (shown, not minimized and, by default, focused)
+ * and the system (suspend and screen lock hide the app). Window focus counts as
+ * user activity; closing the window or quitting the app unloads.
+ */
+export class ElectronEnvironment implements EnvironmentAdapter {
+  public readonly name = 'electron';
+  private signals: EnvironmentSignals | null = null;
+  private listeners: Array<{ target: ElectronEmitterLike, event: string, listener: () => void }> = [];
+  private visible = false;
+  private suspended = false;
+  private online = true;
+
+  constructor(private options: ElectronEnvironmentOptions) {
+    if (!options || !options.window) {
+      throw new Error('ElectronEnvironment requires a BrowserWindow');
+    }
+  }
+
+  public isVisible(): boolean {
+    return this.computeVisible();
+  }
+
+  public isOnline(): boolean {
+    return this.online;
+  }
+
+  public attach(signals: EnvironmentSignals): void {
+    this.detach();
+    this.signals = signals;
+    this.visible = this.computeVisible();
+
+    const { window: browserWindow, powerMonitor, app } = this.options;
+    const update = (source: string) => () => this.updateVisibility(source);
+
+    this.listen(browserWindow, 'focus', () => {
+      this.updateVisibility('focus');
+      signals.activity('focus');
+    });
+    this.listen(browserWindow, 'blur', update('blur'));
+    this.listen(browserWindow, 'show', update('show'));
+    this.listen(browserWindow, 'hide', update('hide'));
+    this.listen(browserWindow, 'minimize', update('minimize'));
+    this.listen(browserWindow, 'restore', update('restore'));
+    this.listen(browserWindow, 'close', () => signals.unload('close'));
+
+    if (powerMonitor) {
+      const suspend = (source: string) => () => {
+        this.suspended = true;
+        this.updateVisibility(source);
+      };
+      const wake = (source: string) => () => {
+        this.suspended = false;
+        this.updateVisibility(source);
+      };
+      this.listen(powerMonitor, 'suspend', suspend('suspend'));
+      this.listen(powerMonitor, 'lock-screen', suspend('lock-screen'));
+      this.listen(powerMonitor, 'resume', wake('resume'));
+      this.listen(powerMonitor, 'unlock-screen', wake('unlock-screen'));
+    }
+
+    if (app) {
+      this.listen(app, 'before-quit', () => signals.unload('before-quit'));
+    }
+  }
+
+  public detach(): void {
+    this.listeners.forEach(({ target, event, listener }) => {
+      target.removeListener(event, listener);
+    });
+    this.listeners = [];
+    this.signals = null;
+  }
+
+  /**
+   * Report user activity, e.g. forwarded from the renderer over IPC
+   */
+  public activity(source = 'manual'): void {
+    if (this.signals) {
+      this.signals.activity(source);
+    }
+  }
+
+  /**
+   * Report a network connectivity change, e.g. forwarded from the renderer over IPC
+   */
+  public setOnline(online: boolean): void {
+    if (this.online === online) return;
+    this.online = online;
+    if (this.signals) {
+      this.signals.networkChange(online);
+    }
+  }
+
+  private computeVisible(): boolean {
+    const browserWindow = this.options.window;
+    if (this.suspended || !browserWindow.isVisible() || browserWindow.isMinimized()) {
+      return false;
+    }
+    return this.options.blurAsHidden === false || browserWindow.isFocused();
+  }
+
+  private updateVisibility(source: string): void {
+    const visible = this.computeVisible();
+    if (visible === this.visible) return;
+    this.visible = visible;
+    if (this.signals) {
+      this.signals.visibilityChange(visible, source);
+    }
+  }
+
+  private listen(target: ElectronEmitterLike, event: string, listener: () => void): void {
+    this.listeners.push({ target, event, listener });
+    target.on(event, listener);
+  }
+}
@@ -0,0 +1,26 @@
+export { EnvironmentAdapter, EnvironmentSignals } from './types';
+export { DomEnvironment, DomEnvironmentOptions, DEFAULT_ACTIVITY_EVENTS } from './dom';
+export { SharedDomEnvironment } from './shared-dom';
+export { NodeEnvironment, NodeEnvironmentOptions, NodeProcessLike } from './node';
+export {
+  ElectronEnvironment,
+  ElectronEnvironmentOptions,
+  ElectronEmitterLike,
+  BrowserWindowLike
+} from './electron';
+export {
+  ReactNativeEnvironment,
+  ReactNativeEnvironmentOptions,
+  AppStateLike,
+  AppStateStatus,
+  NetInfoLike
+} from './react-native';
+export {
+  WorkerEnvironment,
+  WorkerEnvironmentOptions,
+  WorkerEnvironmentMessage,
+  WorkerScopeLike,
+  MessageTargetLike,
+  ConnectWorkerEnvironmentOptions,
+  connectWorkerEnvironment
+} from './worker';
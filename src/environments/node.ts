@@ -0,0 +1,118 @@
+import { EnvironmentAdapter, EnvironmentSignals } from './types';
+
+/**
+ * Subset of the Node.js `process` object used by the Node environment
+ */
+export interface NodeProcessLike {
+  on(event: string, listener: (...args: any[]) => void): unknown;
+  removeListener(event: string, listener: (...args: any[]) => void): unknown;
+}
+
+declare const process: NodeProcessLike | undefined;
+
+/**
+ * Options for the Node.js environment
+ */
+export interface NodeEnvironmentOptions {
+  /**
+   * Process events that end the session, or true for the defaults
+   * ['SIGINT', 'SIGTERM', 'beforeExit'] (default: false).
+   * Note that listening to SIGINT/SIGTERM disables Node's default exit on those
+   * signals - call `process.exit()` yourself after `destroy()`.
+   */
+  processSignals?: boolean | string[];
+  /** Process object to listen on (default: the global `process`) */
+  process?: NodeProcessLike;
+}
+
+/**
+ * Environment for Node.js (CLIs, servers, scripts).
+ *
+ * There is no DOM, so signals are reported manually through `activity()`,
+ * `setVisible()`, `setOnline()` and `unload()`, and optionally from process signals.
+ */
+export class NodeEnvironment implements EnvironmentAdapter {
+  public readonly name = 'node';
+  private signals: EnvironmentSignals | null = null;
+  private visible = true;
+  private online = true;
+  private processListeners: Array<{ event: string, listener: () => void }> = [];
+
+  constructor(private options: NodeEnvironmentOptions = {}) {}
+
+  public isVisible(): boolean {
+    return this.visible;
+  }
+
+  public isOnline(): boolean {
+    return this.online;
+  }
+
+  public attach(signals: EnvironmentSignals): void {
+    this.detach();
+    this.signals = signals;
+
+    const processObj = this.options.process || (typeof process !== 'undefined' ? process : undefined);
+    const { processSignals } = this.options;
+    if (!processObj || !processSignals) return;
+
+    const events = processSignals === true ? ['SIGINT', 'SIGTERM', 'beforeExit'] : processSignals;
+    events.forEach(event => {
+      const listener = () => this.unload(event);
+      this.processListeners.push({ event, listener });
+      processObj.on(event, listener);
+    });
+  }
+
+  public detach(): void {
+    const processObj = this.options.process || (typeof process !== 'undefined' ? process : undefined);
+    if (processObj) {
+      this.processListeners.forEach(({ event, listener }) => {
+        processObj.removeListener(event, listener);
+      });
+    }
+    this.processListeners = [];
+    this.signals = null;
+  }
+
+  /**
+   * Report user activity
+   * @param source - Optional description of the activity (default: 'manual')
+   */
+  public activity(source = 'manual'): void {
+    if (this.signals) {
+      this.signals.activity(source);
+    }
+  }
+
+  /**
+   * Report that the app became visible (foreground) or hidden (background)
+   */
+  public setVisible(visible: boolean, source = 'manual'): void {
+    if (this.visible === visible) return;
+    this.visible = visible;
+    if (this.signals) {
+      this.signals.visibilityChange(visible, source);
+    }
+  }
+
+  /**
+   * Report a network connectivity change
+   */
+  public setOnline(online: boolean): void {
+    if (this.online === online) return;
+    this.online = online;
+    if (this.signals) {
+      this.signals.networkChange(online);
+    }
+  }
+
+  /**
+   * Report that the app is about to exit
+   * @returns Promise that resolves once the session end handlers settled, e.g.
+   * `env.unload().then(() => process.exit())`
+   */
+  public unload(source = 'manual'): Promise<void> {
+    return this.signals ? this.signals.unload(source) : Promise.resolve();
+  }
+}
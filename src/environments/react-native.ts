@@ -0,0 +1,123 @@
+import { EnvironmentAdapter, EnvironmentSignals } from './types';
+
+/**
+ * React Native app states
+ */
+export type AppStateStatus = 'active' | 'background' | 'inactive' | 'unknown' | 'extension';
+
+/**
+ * Subset of React Native's `AppState` module
+ */
+export interface AppStateLike {
+  currentState: AppStateStatus | string | null;
+  addEventListener(
+    type: 'change',
+    listener: (state: AppStateStatus | string) => void
+  ): { remove(): void } | void;
+  removeEventListener?(type: 'change', listener: (state: AppStateStatus | string) => void): void;
+}
+
+/**
+ * Subset of `@react-native-community/netinfo`
+ */
+export interface NetInfoLike {
+  addEventListener(listener: (state: { isConnected: boolean | null }) => void): () => void;
+}
+
+/**
+ * Options for the React Native environment
+ */
+export interface ReactNativeEnvironmentOptions {
+  /** The `AppState` module from 'react-native' */
+  AppState: AppStateLike;
+  /** Optional NetInfo module for network signals */
+  NetInfo?: NetInfoLike;
+}
+
+/**
+ * Environment for React Native apps.
+ *
+ * The app is visible while `AppState` is 'active'. Touch activity is not
+ * observable globally; call `activity()` from a root responder, e.g.
+ * `<View onTouchStart={() => env.activity('touch')}>`.
+ */
+export class ReactNativeEnvironment implements EnvironmentAdapter {
+  public readonly name = 'react-native';
+  private signals: EnvironmentSignals | null = null;
+  private visible: boolean;
+  private online = true;
+  private cleanups: Array<() => void> = [];
+
+  constructor(private options: ReactNativeEnvironmentOptions) {
+    if (!options || !options.AppState) {
+      throw new Error('ReactNativeEnvironment requires the AppState module');
+    }
+    this.visible = this.isActiveState(options.AppState.currentState);
+  }
+
+  public isVisible(): boolean {
+    return this.visible;
+  }
+
+  public isOnline(): boolean {
+    return this.online;
+  }
+
+  public attach(signals: EnvironmentSignals): void {
+    this.detach();
+    this.signals = signals;
+
+    const { AppState, NetInfo } = this.options;
+
+    const appStateListener = (state: AppStateStatus | string) => {
+      const visible = this.isActiveState(state);
+      if (visible !== this.visible) {
+        this.visible = visible;
+        signals.visibilityChange(visible, `AppState:${state}`);
+      }
+      if (visible) {
+        signals.activity('AppState');
+      }
+    };
+
+    const subscription = AppState.addEventListener('change', appStateListener);
+    this.cleanups.push(() => {
+      if (subscription && typeof subscription.remove === 'function') {
+        subscription.remove();
+      } else if (AppState.removeEventListener) {
+        // React Native < 0.65
+        AppState.removeEventListener('change', appStateListener);
+      }
+    });
+
+    if (NetInfo) {
+      const unsubscribe = NetInfo.addEventListener(state => {
+        const online = state.isConnected !== false;
+        if (online !== this.online) {
+          this.online = online;
+          signals.networkChange(online);
+        }
+      });
+      this.cleanups.push(unsubscribe);
+    }
+  }
+
+  public detach(): void {
+    this.cleanups.forEach(cleanup => cleanup());
+    this.cleanups = [];
+    this.signals = null;
+  }
+
+  /**
+   * Report user activity (e.g. from a root touch handler)
+   */
+  public activity(source = 'manual'): void {
+    if (this.signals) {
+      this.signals.activity(source);
+    }
+  }
+
+  private isActiveState(state: string | null): boolean {
+    return state === 'active' || state === null;
+  }
+}
@@ -0,0 +1,119 @@
+import { EnvironmentAdapter, EnvironmentSignals } from './types';
+import { DomEnvironment, DomEnvironmentOptions } from './dom';
+
+/**
+ * One set of DOM listeners shared by every instance with equivalent options
+ */
+interface DomListenerHub {
+  options: DomEnvironmentOptions;
+  environment: DomEnvironment;
+  subscribers: EnvironmentSignals[];
+}
+
+const hubs: DomListenerHub[] = [];
+
+function sameEvents(a: string[] | undefined, b: string[] | undefined): boolean {
+  return (a || []).join(',') === (b || []).join(',');
+}
+
+/**
+ * Whether two option sets produce the same listeners (the clock is not compared:
+ * the hub throttles activity with the clock of its first subscriber)
+ */
+function sameOptions(a: DomEnvironmentOptions, b: DomEnvironmentOptions): boolean {
+  return !!a.mobile === !!b.mobile &&
+    sameEvents(a.activityEvents, b.activityEvents) &&
+    sameEvents(a.excludeActivityEvents, b.excludeActivityEvents) &&
+    a.activityRoot === b.activityRoot &&
+    a.activityThrottle === b.activityThrottle;
+}
+
+function createHub(options: DomEnvironmentOptions): DomListenerHub {
+  const hub: DomListenerHub = {
+    options,
+    environment: new DomEnvironment(options),
+    subscribers: []
+  };
+
+  // 每个信号分发给所有订阅者（复制一份，回调中可能取消订阅）
+  hub.environment.attach({
+    visibilityChange: (visible, source) => {
+      hub.subscribers.slice().forEach(signals => signals.visibilityChange(visible, source));
+    },
+    activity: (source) => {
+      hub.subscribers.slice().forEach(signals => signals.activity(source));
+    },
+    unload: (source) => {
+      return Promise.all(hub.subscribers.slice().map(signals => signals.unload(source))).then(() => undefined);
+    },
+    networkChange: (online) => {
+      hub.subscribers.slice().forEach(signals => signals.networkChange(online));
+    }
+  });
+  return hub;
+}
+
+/**
+ * DOM environment whose listeners are shared between instances.
+ *
+ * The first instance attaches the DOM listeners, later instances with the same
+ * options subscribe to them, and the listeners are removed when the last
+ * instance detaches.
+ */
+export class SharedDomEnvironment implements EnvironmentAdapter {
+  public readonly name = 'shared-dom';
+  private hub: DomListenerHub | null = null;
+  private signals: EnvironmentSignals | null = null;
+
+  constructor(private options: DomEnvironmentOptions = {}) {}
+
+  /**
+   * Check whether the DOM environment is available
+   */
+  public static isSupported(): boolean {
+    return DomEnvironment.isSupported();
+  }
+
+  /**
+   * Number of DOM listener sets currently attached, e.g. for diagnostics
+   */
+  public static hubCount(): number {
+    return hubs.length;
+  }
+
+  public isVisible(): boolean {
+    return typeof document === 'undefined' ? true : !document.hidden;
+  }
+
+  public isOnline(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine !== false;
+  }
+
+  public attach(signals: EnvironmentSignals): void {
+    if (!SharedDomEnvironment.isSupported()) return;
+
+    this.detach();
+
+    let hub = hubs.find(candidate => sameOptions(candidate.options, this.options)) || null;
+    if (!hub) {
+      hub = createHub(this.options);
+      hubs.push(hub);
+    }
+    hub.subscribers.push(signals);
+    this.hub = hub;
+    this.signals = signals;
+  }
+
+  public detach(): void {
+    const hub = this.hub;
+    if (!hub) return;
+
+    hub.subscribers = hub.subscribers.filter(signals => signals !== this.signals);
+    if (hub.subscribers.length === 0) {
+      hub.environment.detach();
+      hubs.splice(hubs.indexOf(hub), 1);
+    }
+    this.hub = null;
+    this.signals = null;
+  }
+}
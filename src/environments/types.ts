@@ -0,0 +1,55 @@
+/**
+ * Signals an environment adapter reports to the session lifecycle
+ */
+export interface EnvironmentSignals {
+  /**
+   * The app became visible or hidden
+   * @param visible - New visibility
+   * @param source - What caused the change, e.g. 'visibilitychange', 'pagehide', 'AppState'
+   */
+  visibilityChange(visible: boolean, source: string): void;
+
+  /**
+   * The user interacted with the app
+   * @param source - What was detected, e.g. 'click', 'focus', 'manual'
+   */
+  activity(source: string): void;
+
+  /**
+   * The app is about to unload or terminate
+   * @param source - What caused the unload, e.g. 'beforeunload', 'SIGTERM'
+   * @returns Promise that resolves once event handlers settled (bounded by shutdownTimeout)
+   */
+  unload(source: string): Promise<void>;
+
+  /**
+   * Network connectivity changed
+   * @param online - Whether the network is available
+   */
+  networkChange(online: boolean): void;
+}
+
+/**
+ * Supplies visibility, activity, unload and network signals from a runtime
+ * (browser DOM, Node.js, Electron, React Native, Web Worker, ...)
+ */
+export interface EnvironmentAdapter {
+  /** Adapter name, used in debug logs */
+  readonly name: string;
+
+  /** Whether the app is currently visible to the user */
+  isVisible(): boolean;
+
+  /** Whether the network is currently available */
+  isOnline(): boolean;
+
+  /**
+   * Start reporting signals. Called once when the lifecycle initializes.
+   */
+  attach(signals: EnvironmentSignals): void;
+
+  /**
+   * Stop reporting signals and release listeners. Called on destroy.
+   */
+  detach(): void;
+}
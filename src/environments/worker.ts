@@ -0,0 +1,149 @@
+import { EnvironmentAdapter, EnvironmentSignals } from './types';
+import { DomEnvironment, DomEnvironmentOptions } from './dom';
+
+/**
+ * Marker identifying environment messages sent from the page to a worker
+ */
+const WORKER_MESSAGE_MARKER = '__sessionLifecycleEnvironment';
+
+/**
+ * Environment signal posted from the page to a worker
+ */
+export type WorkerEnvironmentMessage = { [WORKER_MESSAGE_MARKER]: 1 } & (
+  | { signal: 'visibility'; visible: boolean; source: string }
+  | { signal: 'activity'; source: string }
+  | { signal: 'unload'; source: string }
+  | { signal: 'network'; online: boolean }
+);
+
+/**
+ * Subset of the dedicated worker global scope
+ */
+export interface WorkerScopeLike {
+  addEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+  removeEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+}
+
+/**
+ * Anything messages can be posted to (a Worker, MessagePort, ...)
+ */
+export interface MessageTargetLike {
+  postMessage(message: unknown): void;
+}
+
+/**
+ * Options for the worker environment
+ */
+export interface WorkerEnvironmentOptions {
+  /** Scope to listen on for messages from the page (default: `self`) */
+  scope?: WorkerScopeLike;
+}
+
+/**
+ * Options for forwarding page signals to a worker; `activityThrottle` and
+ * `clock` limit how often activity messages are posted
+ */
+export type ConnectWorkerEnvironmentOptions = DomEnvironmentOptions;
+
+declare const self: WorkerScopeLike | undefined;
+
+/**
+ * Environment for dedicated Web Workers.
+ *
+ * Workers have no DOM; the page forwards its signals with
+ * `connectWorkerEnvironment(worker)` and this adapter replays them inside the worker.
+ */
+export class WorkerEnvironment implements EnvironmentAdapter {
+  public readonly name = 'worker';
+  private visible = true;
+  private online = true;
+  private scope: WorkerScopeLike | null;
+  private messageListener: ((event: MessageEvent) => void) | null = null;
+
+  constructor(options: WorkerEnvironmentOptions = {}) {
+    this.scope = options.scope || (typeof self !== 'undefined' ? self : null);
+  }
+
+  public isVisible(): boolean {
+    return this.visible;
+  }
+
+  public isOnline(): boolean {
+    return this.online;
+  }
+
+  public attach(signals: EnvironmentSignals): void {
+    if (!this.scope) return;
+
+    this.detach();
+
+    this.messageListener = (event: MessageEvent) => {
+      const message = event.data as WorkerEnvironmentMessage;
+      if (!message || message[WORKER_MESSAGE_MARKER] !== 1) return;
+
+      switch (message.signal) {
+        case 'visibility':
+          if (message.visible !== this.visible) {
+            this.visible = message.visible;
+            signals.visibilityChange(message.visible, message.source);
+          }
+          break;
+        case 'activity':
+          signals.activity(message.source);
+          break;
+        case 'unload':
+          signals.unload(message.source);
+          break;
+        case 'network':
+          if (message.online !== this.online) {
+            this.online = message.online;
+            signals.networkChange(message.online);
+          }
+          break;
+      }
+    };
+
+    this.scope.addEventListener('message', this.messageListener);
+  }
+
+  public detach(): void {
+    if (this.scope && this.messageListener) {
+      this.scope.removeEventListener('message', this.messageListener);
+    }
+    this.messageListener = null;
+  }
+}
+
+/**
+ * Forward the page's DOM signals to a worker running a `WorkerEnvironment`
+ * @param target - The worker (or port) to post signals to
+ * @param options - DOM environment options
+ * @returns Function that stops forwarding
+ */
+export function connectWorkerEnvironment(
+  target: MessageTargetLike,
+  options: ConnectWorkerEnvironmentOptions = {}
+): () => void {
+  const dom = new DomEnvironment(options);
+
+  const post = (message: Record<string, unknown>) => {
+    target.postMessage({ [WORKER_MESSAGE_MARKER]: 1, ...message });
+  };
+
+  dom.attach({
+    visibilityChange: (visible, source) => post({ signal: 'visibility', visible, source }),
+    // DomEnvironment 已按 activityThrottle 节流
+    activity: (source) => post({ signal: 'activity', source }),
+    unload: (source) => {
+      post({ signal: 'unload', source });
+      return Promise.resolve();
+    },
+    networkChange: (online) => post({ signal: 'network', online })
+  });
+
+  // 同步初始状态
+  post({ signal: 'visibility', visible: dom.isVisible(), source: 'connect' });
+  post({ signal: 'network', online: dom.isOnline() });
+
+  return () => dom.detach();
+}
@@ -0,0 +1,78 @@
+/**
+ * One step of a heartbeat schedule
+ */
+export interface HeartbeatStep {
+  /** Heartbeat interval in milliseconds while this step applies */
+  interval: number;
+  /**
+   * Session age in milliseconds up to which this step applies
+   * (omit on the last step: it applies for the rest of the session)
+   */
+  until?: number;
+}
+
+/**
+ * Heartbeat schedule configuration
+ *
+ * @example
+ * // every 10s for the first minute, 30s until 10 minutes, then 60s
+ * {
+ *   steps: [
+ *     { interval: 10000, until: 60000 },
+ *     { interval: 30000, until: 600000 },
+ *     { interval: 60000 }
+ *   ]
+ * }
+ */
+export interface HeartbeatScheduleConfig {
+  /** Steps in order of session age */
+  steps: HeartbeatStep[];
+  /**
+   * Fire heartbeats on wall-clock multiples of the interval (e.g. at :00 and :30
+   * for a 30s interval) instead of relative to the session start (default: false)
+   */
+  alignToClock?: boolean;
+  /**
+   * Skip a heartbeat when there was no user activity and no route change since
+   * the previous one; the next heartbeat's duration covers the skipped time (default: false)
+   */
+  skipUnchanged?: boolean;
+}
+
+/**
+ * Next heartbeat planned from a schedule
+ */
+export interface PlannedHeartbeat {
+  /** Time the heartbeat is due */
+  time: number;
+  /** Index of the step that produced it */
+  step: number;
+  /** Interval of that step */
+  interval: number;
+}
+
+/**
+ * Find the step that applies at a session age
+ */
+export function getHeartbeatStep(steps: HeartbeatStep[], age: number): number {
+  for (let i = 0; i < steps.length - 1; i++) {
+    const until = steps[i].until;
+    if (typeof until !== 'number' || age < until) return i;
+  }
+  return Math.max(steps.length - 1, 0);
+}
+
+/**
+ * Plan the heartbeat following `previous`
+ * @param schedule - Heartbeat schedule (must have at least one step)
+ * @param startTime - Start time of the session
+ * @param previous - Due time of the previous heartbeat, or when heartbeats (re)started
+ */
+export function planHeartbeat(schedule: HeartbeatScheduleConfig, startTime: number, previous: number): PlannedHeartbeat {
+  const step = getHeartbeatStep(schedule.steps, previous - startTime);
+  const interval = Math.max(schedule.steps[step].interval, 1);
+  const time = schedule.alignToClock
+    ? Math.floor(previous / interval) * interval + interval // 下一个整倍数时刻
+    : previous + interval;
+  return { time, step, interval };
+}
@@ -0,0 +1,198 @@
+/**
+ * Configuration options for the Idle Detection API integration
+ */
+export interface IdleDetectionConfig {
+  /** Time in milliseconds without system input before the user counts as idle (default and minimum: 60000) */
+  threshold?: number;
+  /**
+   * Ask for the 'idle-detection' permission when it has not been decided yet (default: false).
+   * Browsers only show the prompt from a user gesture; prefer calling
+   * `requestIdleDetectionPermission()` from a click handler.
+   */
+  requestPermission?: boolean;
+}
+
+/**
+ * Callbacks invoked by the monitor when the system state changes
+ */
+export interface IdleDetectionHandlers {
+  /** The user became active or idle anywhere on the system */
+  onUserStateChange: (active: boolean) => void;
+  /** The screen was locked or unlocked */
+  onScreenStateChange: (locked: boolean) => void;
+}
+
+/**
+ * Subset of the IdleDetector interface (not yet in the TypeScript DOM typings)
+ */
+interface IdleDetectorLike extends EventTarget {
+  readonly userState: 'active' | 'idle' | null;
+  readonly screenState: 'locked' | 'unlocked' | null;
+  start(options: { threshold: number; signal: AbortSignal }): Promise<void>;
+}
+
+interface IdleDetectorConstructor {
+  new (): IdleDetectorLike;
+  requestPermission(): Promise<'granted' | 'denied'>;
+}
+
+const MIN_THRESHOLD = 60000;
+
+function getIdleDetector(): IdleDetectorConstructor | null {
+  const scope = globalThis as unknown as { IdleDetector?: IdleDetectorConstructor };
+  return typeof scope.IdleDetector === 'function' ? scope.IdleDetector : null;
+}
+
+/**
+ * Ask the user for the 'idle-detection' permission. Must be called from a user gesture.
+ * @returns Whether the permission was granted
+ */
+export async function requestIdleDetectionPermission(): Promise<boolean> {
+  const IdleDetector = getIdleDetector();
+  if (!IdleDetector) return false;
+
+  try {
+    return (await IdleDetector.requestPermission()) === 'granted';
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Watches system-level idleness and screen lock through the Idle Detection API.
+ *
+ * When the API is unavailable or the permission is not granted, `start()`
+ * resolves to false and the lifecycle keeps relying on DOM input events.
+ * If the permission is granted later, detection starts automatically.
+ */
+export class IdleDetectionMonitor {
+  private readonly threshold: number;
+  private abortController: AbortController | null = null;
+  private permissionStatus: PermissionStatus | null = null;
+  private stopped = false;
+  private userActive: boolean | null = null;
+  private screenLocked: boolean | null = null;
+
+  constructor(
+    private config: IdleDetectionConfig,
+    private handlers: IdleDetectionHandlers,
+    private log: (message: string) => void
+  ) {
+    this.threshold = Math.max(config.threshold || MIN_THRESHOLD, MIN_THRESHOLD);
+  }
+
+  /**
+   * Check whether the Idle Detection API is available
+   */
+  public static isSupported(): boolean {
+    return getIdleDetector() !== null;
+  }
+
+  /**
+   * Start detection if the permission allows it
+   * @returns Whether detection started
+   */
+  public async start(): Promise<boolean> {
+    this.stopped = false;
+    if (!IdleDetectionMonitor.isSupported()) {
+      this.log('Idle Detection API not supported - using DOM activity only');
+      return false;
+    }
+
+    const permission = await this.queryPermission();
+    if (this.stopped) return false;
+
+    if (permission === 'granted') {
+      return this.startDetector();
+    }
+
+    if (permission === 'prompt' && this.config.requestPermission) {
+      if (await requestIdleDetectionPermission()) {
+        return this.stopped ? false : this.startDetector();
+      }
+    }
+
+    this.log(`Idle detection permission ${permission} - using DOM activity only`);
+    return false;
+  }
+
+  /**
+   * Stop detection and release listeners
+   */
+  public stop(): void {
+    this.stopped = true;
+    if (this.abortController) {
+      this.abortController.abort();
+      this.abortController = null;
+    }
+    if (this.permissionStatus) {
+      this.permissionStatus.onchange = null;
+      this.permissionStatus = null;
+    }
+    this.userActive = null;
+    this.screenLocked = null;
+  }
+
+  /**
+   * Query the permission state and watch it for later grants
+   */
+  private async queryPermission(): Promise<PermissionState> {
+    if (typeof navigator === 'undefined' || !navigator.permissions) {
+      return 'prompt';
+    }
+
+    try {
+      const status = await navigator.permissions.query({ name: 'idle-detection' as PermissionName });
+      this.permissionStatus = status;
+      status.onchange = () => {
+        // 用户稍后授权（如在设置中或通过 requestIdleDetectionPermission）
+        if (status.state === 'granted' && !this.abortController && !this.stopped) {
+          this.startDetector();
+        }
+      };
+      return status.state;
+    } catch (error) {
+      // 部分浏览器不支持查询该权限
+      return 'prompt';
+    }
+  }
+
+  private async startDetector(): Promise<boolean> {
+    const IdleDetector = getIdleDetector();
+    if (!IdleDetector || this.abortController) return !!this.abortController;
+
+    const controller = new AbortController();
+    this.abortController = controller;
+
+    try {
+      const detector = new IdleDetector();
+      detector.addEventListener('change', () => this.onChange(detector));
+      await detector.start({ threshold: this.threshold, signal: controller.signal });
+      this.log(`Idle detection started (threshold: ${this.threshold}ms)`);
+      this.onChange(detector);
+      return true;
+    } catch (error) {
+      this.log(`Idle detection unavailable (${error}) - using DOM activity only`);
+      if (this.abortController === controller) {
+        this.abortController = null;
+      }
+      return false;
+    }
+  }
+
+  private onChange(detector: IdleDetectorLike): void {
+    if (this.stopped) return;
+
+    const screenLocked = detector.screenState === 'locked';
+    if (screenLocked !== this.screenLocked) {
+      this.screenLocked = screenLocked;
+      this.handlers.onScreenStateChange(screenLocked);
+    }
+
+    const userActive = detector.userState === 'active';
+    if (userActive !== this.userActive) {
+      this.userActive = userActive;
+      this.handlers.onUserStateChange(userActive);
+    }
+  }
+}
@@ -0,0 +1,436 @@
+import type { SessionEventMap, SessionState } from './index';
+import { DomEnvironment, DomEnvironmentOptions } from './environments/dom';
+import { TypedEventEmitter, Unsubscribe } from './emitter';
+
+/**
+ * Protocol identifier carried by every bridge message
+ */
+export const IFRAME_BRIDGE_PROTOCOL = 'session-lifecycle/iframe';
+
+/**
+ * Version of the bridge protocol; messages with another version are ignored
+ */
+export const IFRAME_BRIDGE_VERSION = 1;
+
+/**
+ * Session events a frame can subscribe to
+ */
+export type IframeBridgeEventName = Exclude<keyof SessionEventMap, 'state_change'>;
+
+/**
+ * A session event forwarded to frames, with its payload
+ */
+export type IframeBridgeEvent = {
+  [K in IframeBridgeEventName]: { event: K; data: SessionEventMap[K][0] }
+}[IframeBridgeEventName];
+
+/**
+ * Session id and state of the parent, sent along with every parent message
+ */
+export interface IframeSessionSnapshot {
+  session_id: string | null;
+  state: SessionState;
+}
+
+/**
+ * Message posted by a frame to the parent
+ * - hello: the frame connected; `events` lists its subscriptions (true for all)
+ * - activity: user activity inside the frame
+ * - visibility: the frame became visible or hidden
+ * - goodbye: the frame unloads or disconnected
+ */
+export type IframeChildMessage =
+  | { type: 'hello'; events: boolean | IframeBridgeEventName[] }
+  | { type: 'activity'; source: string }
+  | { type: 'visibility'; visible: boolean; source: string }
+  | { type: 'goodbye' };
+
+/**
+ * Message posted by the parent to a frame
+ * - ready: the parent bridge started; frames answer with hello
+ * - welcome: answer to hello
+ * - session: the session id or state changed
+ * - event: a subscribed session event
+ * - goodbye: the parent bridge stopped
+ */
+export type IframeParentMessage =
+  | { type: 'ready' }
+  | ({ type: 'welcome' } & IframeSessionSnapshot)
+  | ({ type: 'session' } & IframeSessionSnapshot)
+  | ({ type: 'event' } & IframeBridgeEvent & IframeSessionSnapshot)
+  | { type: 'goodbye' };
+
+/**
+ * Envelope shared by all bridge messages
+ */
+export type IframeBridgeEnvelope<T> = { protocol: typeof IFRAME_BRIDGE_PROTOCOL; version: number } & T;
+
+/**
+ * A window messages can be posted to (the parent, or a frame's contentWindow)
+ */
+export interface WindowLike {
+  postMessage(message: unknown, targetOrigin: string): void;
+  readonly closed?: boolean;
+}
+
+/**
+ * Configuration of the parent-side bridge
+ */
+export interface IframeBridgeConfig {
+  /**
+   * Origins of cross-origin frames allowed to connect, e.g. 'https://pay.example.com'.
+   * Same-origin frames are always allowed. Sandboxed frames ('null') may send
+   * signals but never receive the session id or events (default: none)
+   */
+  allowedOrigins?: string[];
+  /** Let frames subscribe to session events and the session id (default: true) */
+  shareSession?: boolean;
+}
+
+/**
+ * Callbacks invoked by the parent bridge when a frame reports a signal
+ */
+export interface IframeBridgeHandlers {
+  /** User activity inside a frame */
+  onActivity: (source: string, origin: string) => void;
+  /** A frame became visible or hidden */
+  onVisibility: (visible: boolean, source: string, origin: string) => void;
+  /** Current session of the parent */
+  getSnapshot: () => IframeSessionSnapshot;
+}
+
+interface ConnectedFrame {
+  source: WindowLike;
+  origin: string;
+  events: IframeBridgeEventName[] | true;
+  last: IframeSessionSnapshot | null;
+}
+
+function envelope<T>(message: T): IframeBridgeEnvelope<T> {
+  return { protocol: IFRAME_BRIDGE_PROTOCOL, version: IFRAME_BRIDGE_VERSION, ...message };
+}
+
+/**
+ * Read a bridge message, or null if the data is not one
+ */
+function readMessage<T>(data: unknown): IframeBridgeEnvelope<T> | null {
+  const message = data as IframeBridgeEnvelope<T>;
+  return message && typeof message === 'object' && message.protocol === IFRAME_BRIDGE_PROTOCOL ? message : null;
+}
+
+// 沙箱页面的 origin 为 'null'，只能以 '*' 发送
+function toTargetOrigin(origin: string): string {
+  return isOpaqueOrigin(origin) ? '*' : origin;
+}
+
+function isOpaqueOrigin(origin: string): boolean {
+  return origin === 'null';
+}
+
+/**
+ * Emit a forwarded event on the frame side; each case keeps the payload type of its event
+ */
+function emitParentEvent(emitter: TypedEventEmitter<ParentSessionEventMap>, message: IframeBridgeEvent): void {
+  switch (message.event) {
+    case 'session_start':
+      emitter.emit('session_start', message.data);
+      break;
+    case 'session_end':
+      emitter.emit('session_end', message.data);
+      break;
+    case 'session_life':
+      emitter.emit('session_life', message.data);
+      break;
+    case 'session_pause':
+      emitter.emit('session_pause', message.data);
+      break;
+    case 'session_resume':
+      emitter.emit('session_resume', message.data);
+      break;
+    case 'route_change':
+      emitter.emit('route_change', message.data);
+      break;
+  }
+}
+
+/**
+ * Parent side of the iframe bridge.
+ *
+ * Receives activity and visibility signals from frames on allowed origins and
+ * forwards session events to the frames that subscribed to them.
+ */
+export class IframeBridgeHost {
+  private readonly allowedOrigins: string[];
+  private readonly shareSession: boolean;
+  private frames: ConnectedFrame[] = [];
+  private messageListener: ((event: MessageEvent) => void) | null = null;
+
+  constructor(
+    config: IframeBridgeConfig,
+    private handlers: IframeBridgeHandlers,
+    private log: (message: string) => void = () => {}
+  ) {
+    this.allowedOrigins = (config.allowedOrigins || []).slice();
+    this.shareSession = config.shareSession !== false;
+  }
+
+  /**
+   * Start listening for frames and announce the bridge to the frames already loaded
+   * @returns True if the bridge is available
+   */
+  public start(): boolean {
+    if (this.messageListener) return true;
+    if (typeof window === 'undefined') return false;
+
+    this.messageListener = (event: MessageEvent) => this.handleMessage(event);
+    window.addEventListener('message', this.messageListener);
+
+    // 先于父页面加载完成的 frame 收到 ready 后重新发送 hello
+    if (typeof document !== 'undefined') {
+      Array.prototype.forEach.call(document.querySelectorAll('iframe'), (iframe: HTMLIFrameElement) => {
+        this.post(iframe.contentWindow, '*', { type: 'ready' });
+      });
+    }
+    return true;
+  }
+
+  /**
+   * Tell subscribed frames the bridge stopped and remove the listener
+   */
+  public stop(): void {
+    if (this.messageListener) {
+      window.removeEventListener('message', this.messageListener);
+      this.messageListener = null;
+    }
+    this.frames.forEach(frame => this.post(frame.source, frame.origin, { type: 'goodbye' }));
+    this.frames = [];
+  }
+
+  /**
+   * Forward a session event to subscribed frames; frames not subscribed to the
+   * event still receive session id and state changes
+   */
+  public publish(message: IframeBridgeEvent): void {
+    if (this.frames.length === 0) return;
+
+    const snapshot = this.handlers.getSnapshot();
+    // 已移除的 frame 不会发送 goodbye，发送前清理
+    this.frames = this.frames.filter(frame => !frame.source.closed);
+    this.frames.forEach(frame => {
+      if (frame.events === true || frame.events.indexOf(message.event) !== -1) {
+        this.post(frame.source, frame.origin, { type: 'event', ...message, ...snapshot });
+      } else if (!frame.last || frame.last.session_id !== snapshot.session_id || frame.last.state !== snapshot.state) {
+        this.post(frame.source, frame.origin, { type: 'session', ...snapshot });
+      } else {
+        return;
+      }
+      frame.last = snapshot;
+    });
+  }
+
+  private isAllowedOrigin(origin: string): boolean {
+    if (typeof location !== 'undefined' && origin === location.origin && origin !== 'null') return true;
+    return this.allowedOrigins.indexOf(origin) !== -1;
+  }
+
+  /**
+   * Check that a message comes from a frame embedded in this document, not from
+   * an opener, a popup or a frame nested deeper
+   */
+  private isEmbeddedFrame(source: MessageEventSource): boolean {
+    if (typeof document === 'undefined') return false;
+    const iframes = document.querySelectorAll('iframe');
+    for (let i = 0; i < iframes.length; i++) {
+      if (iframes[i].contentWindow === source) return true;
+    }
+    return false;
+  }
+
+  private handleMessage(event: MessageEvent): void {
+    const message = readMessage<IframeChildMessage>(event.data);
+    if (!message || !event.source) return;
+
+    if (!this.isAllowedOrigin(event.origin)) {
+      this.log(`Ignoring iframe message from disallowed origin ${event.origin}`);
+      return;
+    }
+    if (!this.isEmbeddedFrame(event.source)) {
+      this.log(`Ignoring iframe bridge message from a window that is not an embedded frame (${event.origin})`);
+      return;
+    }
+    if (message.version !== IFRAME_BRIDGE_VERSION) {
+      this.log(`Ignoring iframe message with unsupported protocol version ${message.version} from ${event.origin}`);
+      return;
+    }
+
+    const source = event.source as WindowLike;
+    switch (message.type) {
+      case 'hello':
+        this.connect(source, event.origin, message.events);
+        break;
+      case 'activity':
+        this.handlers.onActivity(message.source, event.origin);
+        break;
+      case 'visibility':
+        this.handlers.onVisibility(!!message.visible, message.source, event.origin);
+        break;
+      case 'goodbye':
+        this.frames = this.frames.filter(frame => frame.source !== source);
+        break;
+    }
+  }
+
+  /**
+   * Register a frame's subscriptions and answer its hello
+   */
+  private connect(source: WindowLike, origin: string, events: boolean | IframeBridgeEventName[]): void {
+    this.frames = this.frames.filter(frame => frame.source !== source);
+
+    // 沙箱 frame 的消息只能以 '*' 发送，任何窗口都可能收到，因此不共享会话
+    const shareSession = this.shareSession && !isOpaqueOrigin(origin);
+    const subscribed = shareSession && (events === true || Array.isArray(events));
+    const current = this.handlers.getSnapshot();
+    // 未订阅或不共享会话时只告知状态
+    const snapshot = subscribed ? current : { session_id: null, state: current.state };
+    if (subscribed) {
+      this.frames.push({ source, origin, events: events === true ? true : (events as IframeBridgeEventName[]).slice(), last: snapshot });
+    }
+    this.post(source, origin, { type: 'welcome', ...snapshot });
+    this.log(`Iframe connected from ${origin}${subscribed ? ' (subscribed)' : ''}`);
+  }
+
+  private post(target: WindowLike | null, origin: string, message: IframeParentMessage): void {
+    if (!target) return;
+    try {
+      target.postMessage(envelope(message), toTargetOrigin(origin));
+    } catch (error) {
+      console.error('Error posting iframe bridge message:', error);
+    }
+  }
+}
+
+/**
+ * Options for connecting a frame to the parent's session
+ */
+export interface ConnectParentSessionOptions extends DomEnvironmentOptions {
+  /** Origin of the parent page, e.g. 'https://app.example.com' (required) */
+  parentOrigin: string;
+  /**
+   * Subscribe to the parent's session id and events: true for all events, a list
+   * for some, false to only forward signals (default: false)
+   */
+  events?: boolean | IframeBridgeEventName[];
+  /** Window to connect to (default: window.parent) */
+  target?: WindowLike;
+}
+
+/**
+ * Events a connected frame can listen to: the subscribed session events, and
+ * `session_change` when the parent's session id or state changes
+ */
+export type ParentSessionEventMap = Pick<SessionEventMap, IframeBridgeEventName> & {
+  session_change: [IframeSessionSnapshot];
+};
+
+/**
+ * Connection from a frame to the parent's session
+ */
+export interface ParentSessionConnection {
+  /** Id of the parent's current session, null until known or when not subscribed */
+  getSessionId(): string | null;
+  /** State of the parent's session, null until the parent answered */
+  getState(): SessionState | null;
+  /** Listen to a subscribed session event or to session_change */
+  on<K extends keyof ParentSessionEventMap>(
+    event: K,
+    handler: (...args: ParentSessionEventMap[K]) => void | Promise<void>
+  ): Unsubscribe;
+  /** Stop forwarding signals and tell the parent the frame left */
+  disconnect(): void;
+}
+
+/**
+ * Forward a frame's activity and visibility to the parent page's SessionLifecycle
+ * (which must enable `iframeBridge`) and optionally follow the parent's session
+ * @param options - Parent origin, subscriptions and DOM environment options
+ * @returns The connection, inert when not running inside a frame
+ */
+export function connectParentSession(options: ConnectParentSessionOptions): ParentSessionConnection {
+  const emitter = new TypedEventEmitter<ParentSessionEventMap>();
+  let snapshot: IframeSessionSnapshot | null = null;
+
+  const connection: ParentSessionConnection = {
+    getSessionId: () => (snapshot ? snapshot.session_id : null),
+    getState: () => (snapshot ? snapshot.state : null),
+    on: (event, handler) => emitter.on(event, handler),
+    disconnect: () => {}
+  };
+
+  const target = options.target ||
+    (typeof window !== 'undefined' && window.parent !== window ? window.parent : null);
+  if (!target || !DomEnvironment.isSupported()) return connection;
+
+  const { parentOrigin } = options;
+  const events = options.events || false;
+  const dom = new DomEnvironment(options);
+
+  const post = (message: IframeChildMessage) => {
+    try {
+      target.postMessage(envelope(message), parentOrigin);
+    } catch (error) {
+      console.error('Error posting iframe bridge message:', error);
+    }
+  };
+
+  const updateSnapshot = (next: IframeSessionSnapshot | null) => {
+    const changed = !snapshot || !next || snapshot.session_id !== next.session_id || snapshot.state !== next.state;
+    snapshot = next;
+    if (changed && next) {
+      emitter.emit('session_change', next);
+    }
+  };
+
+  const messageListener = (event: MessageEvent) => {
+    if (event.source !== target || event.origin !== parentOrigin) return;
+    const message = readMessage<IframeParentMessage>(event.data);
+    if (!message || message.version !== IFRAME_BRIDGE_VERSION) return;
+
+    switch (message.type) {
+      case 'ready':
+        post({ type: 'hello', events });
+        break;
+      case 'welcome':
+      case 'session':
+        updateSnapshot({ session_id: message.session_id, state: message.state });
+        break;
+      case 'event':
+        updateSnapshot({ session_id: message.session_id, state: message.state });
+        emitParentEvent(emitter, message);
+        break;
+      case 'goodbye':
+        updateSnapshot(null);
+        break;
+    }
+  };
+
+  window.addEventListener('message', messageListener);
+  dom.attach({
+    visibilityChange: (visible, source) => post({ type: 'visibility', visible, source }),
+    activity: (source) => post({ type: 'activity', source }),
+    unload: () => {
+      post({ type: 'goodbye' });
+      return Promise.resolve();
+    },
+    networkChange: () => {}
+  });
+  post({ type: 'hello', events });
+
+  connection.disconnect = () => {
+    connection.disconnect = () => {};
+    window.removeEventListener('message', messageListener);
+    dom.detach();
+    post({ type: 'goodbye' });
+    emitter.removeAllListeners();
+  };
+  return connection;
+}
@@ -1,40 +1,371 @@
+import { generateId, setCookie, CookieOptions } from './utils';
+import { CrossTabCoordinator, CrossTabConfig, CrossTabPeer } from './cross-tab';
+import { SessionPersistence, SessionPersistenceConfig, resolveStorageAdapter } from './storage';
+export { EventReporter, ReporterConfig, ReportedEvent } from './reporter';
+export { Clock, Scheduler, TimerHandle, VirtualTime, MonotonicClock, systemClock, systemScheduler } from './time';
+export * from './environments';
+export * from './activity';
+export { IdleDetectionConfig, IdleDetectionMonitor, requestIdleDetectionPermission } from './idle-detection';
+export * from './plugins';
+export { RouteTrackingConfig } from './route-tracker';
+export { SessionRolloverReason, getNextMidnight } from './rollover';
+export { HeartbeatStep, HeartbeatScheduleConfig } from './heartbeat-schedule';
+export { ResumePolicy, ResumePolicyFunction } from './resume-policy';
+export { DeviceClass, DeviceInfo, DeviceInfoSource, DeviceDetector, classifyUserAgent, detectDevice } from './device';
+export {
+  IFRAME_BRIDGE_PROTOCOL,
+  IFRAME_BRIDGE_VERSION,
+  IframeBridgeConfig,
+  IframeBridgeEventName,
+  IframeBridgeEvent,
+  IframeSessionSnapshot,
+  IframeChildMessage,
+  IframeParentMessage,
+  IframeBridgeEnvelope,
+  WindowLike,
+  ConnectParentSessionOptions,
+  ParentSessionEventMap,
+  ParentSessionConnection,
+  connectParentSession
+} from './iframe-bridge';
+import { EventReporter, ReporterConfig } from './reporter';
+import {
+  Clock,
+  MAX_TIMER_DELAY,
+  MonotonicClock,
+  Scheduler,
+  TimerHandle,
+  systemClock,
+  systemScheduler,
+  toMonotonicClock
+} from './time';
+import { EnvironmentAdapter, EnvironmentSignals, DomEnvironment, DomEnvironmentOptions, SharedDomEnvironment } from './environments';
+import { TypedEventEmitter, Unsubscribe, DispatchMode } from './emitter';
+import { EngagementTracker, SessionEngagement } from './engagement';
+import {
+  ActivityConfig,
+  ActivityDetector,
+  MediaPlaybackDetector,
+  FullscreenDetector,
+  ManualActivityDetector
+} from './activity';
+import { IdleDetectionMonitor, IdleDetectionConfig } from './idle-detection';
+import { SessionPlugin, PluginContext, PluginEventName, PluginEventPayloads, PluginHookResult } from './plugins';
+import { RouteTracker, RouteTrackingConfig } from './route-tracker';
+import { RolloverBoundary, SessionRolloverReason, getRolloverBoundary } from './rollover';
+import { HeartbeatScheduleConfig, planHeartbeat } from './heartbeat-schedule';
+import { ResumePolicy, shouldResumeSession, getPauseExpiryDelay } from './resume-policy';
+import { DeviceClass, DeviceInfo, DeviceDetector, resolveDeviceInfo } from './device';
+import { IframeBridgeHost, IframeBridgeConfig, IframeBridgeEvent } from './iframe-bridge';
+export { SessionEngagement } from './engagement';
+export {
+  TypedEventEmitter,
+  EventMap,
+  EventListener,
+  WildcardListener,
+  Unsubscribe,
+  DispatchMode,
+  EmitterOptions,
+  ListenerErrorHandler
+} from './emitter';
+
+export { generateId, CookieOptions } from './utils';
+export { CrossTabConfig } from './cross-tab';
+export {
+  SessionStorageAdapter,
+  SessionStorageType,
+  SessionPersistenceConfig,
+  PersistedSession,
+  createWebStorageAdapter,
+  createCookieStorageAdapter,
+  createMemoryStorageAdapter
+} from './storage';
+
 /**
  * Session start event types
+ * - init: first session of the page load
+ * - active: session started again after inactivity or a long pause
+ * - resume: session continued from a previous page load
+ * - identify: session started because the identified user changed
+ * - rollover: session split at maxSessionDuration or midnight
+ */
+export type SessionStartType = 'init' | 'active' | 'resume' | 'identify' | 'rollover';
+
+/**
+ * Config blocks merged over the base config on matching devices
+ */
+export type SessionConfigProfiles = {
+  [K in DeviceClass]?: Omit<SessionLifecycleConfig, 'profiles' | 'deviceClass' | 'name'>;
+};
+
+/**
+ * Why a session was paused
+ * - hidden: the page or app became hidden
+ * - pagehide: the page was hidden by a pagehide event (mobile, bfcache)
+ * - offline: the network went offline (mobile)
+ * - manual: pause() was called
+ */
+export type SessionPauseReason = 'hidden' | 'pagehide' | 'offline' | 'manual';
+
+/**
+ * Why a paused session resumed (or a new session started after a long pause)
+ * - visible: the page or app became visible
+ * - pageshow: the page was shown by a pageshow event (mobile, bfcache)
+ * - online: the network came back (mobile)
+ * - manual: resume() was called
+ */
+export type SessionResumeReason = 'visible' | 'pageshow' | 'online' | 'manual';
+
+/**
+ * Why a session started. The start `type` is kept for compatibility; the reason
+ * tells the trigger apart:
+ * - init: first session of the page load
+ * - activity: user activity after the previous session ended
+ * - resume: session continued from a previous page load
+ * - manual: start() was called
+ * - identify: identify() changed the user
+ * - screen_unlocked: the screen was unlocked (Idle Detection API)
+ * - max_duration / midnight: the previous session was split
+ * - system_wake: the previous session ended because the system slept
+ * - visible / pageshow / online: the app came back after a long pause
+ */
+export type SessionStartReason =
+  | 'init'
+  | 'activity'
+  | 'resume'
+  | 'manual'
+  | 'identify'
+  | 'screen_unlocked'
+  | 'system_wake'
+  | SessionResumeReason
+  | SessionRolloverReason;
+
+/**
+ * Why a session ended:
+ * - inactivity: no user activity for the inactivity timeout
+ * - hidden / pagehide / offline: the session was paused for longer than the resume threshold
+ *   (or paused in legacyPauseEvents mode)
+ * - beforeunload / pagehide / unload, or the environment's source (e.g. 'SIGTERM'): the app unloaded
+ * - destroy: destroy() was called
+ * - manual, or the reason passed to end(): end() was called
+ * - restart: start() was called during a session
+ * - identify: identify() changed the user
+ * - screen_locked: the screen was locked (Idle Detection API)
+ * - max_duration / midnight: the session was split
+ * - system_sleep: timers stopped for much longer than the heartbeat interval
+ *   (system sleep); the session ended at the last time it was known alive
  */
-export type SessionStartType = 'init' | 'active';
+export type SessionEndReason =
+  | 'inactivity'
+  | 'beforeunload'
+  | 'unload'
+  | 'destroy'
+  | 'restart'
+  | 'identify'
+  | 'screen_locked'
+  | 'system_sleep'
+  | SessionPauseReason
+  | SessionRolloverReason
+  | (string & {});
+
+/**
+ * Custom properties attached to every event payload
+ */
+export type SessionContext = { [key: string]: unknown };
+
+/**
+ * Identifiers shared by every lifecycle event payload
+ */
+export interface SessionEventIds {
+  /** Id of the session the event belongs to (new for every started session) */
+  session_id: string;
+  /** Per-session event sequence number, starting at 0 for the start event */
+  seq: number;
+  /** Id of the current page load, shared by all sessions of this page */
+  instance_id: string;
+  /** Identified user, set with identify() */
+  user_id?: string;
+  /** Custom properties, set with setContext() */
+  context?: SessionContext;
+}
 
 /**
  * Session start event data
  */
-export interface SessionStartData {
+export interface SessionStartData extends SessionEventIds {
   type: SessionStartType;
+  /** What started the session */
+  reason: SessionStartReason;
   timestamp: number;
+  /** Device the session runs on */
+  device: DeviceInfo;
+  /** Why the previous session was split (rollover starts only) */
+  rollover?: SessionRolloverReason;
 }
 
 /**
  * Session end event data
  */
-export interface SessionEndData {
+export interface SessionEndData extends SessionEventIds, SessionEngagement {
+  /** What ended the session */
+  reason: SessionEndReason;
   duration: number;
   total_duration: number;
   timestamp: number;
+  /** Idle time before an inactivity end, not included in active_ms or idle_ms (0 for other ends) */
+  trailing_idle_ms: number;
+  /**
+   * The session state was persisted, so the next page load may continue the session
+   * with a 'resume' start and the same session_id (unload, destroy and pause timeout
+   * ends with persistence enabled), or the session may still resume (legacyPauseEvents)
+   */
+  provisional: boolean;
+  /** Current route (route tracking only) */
+  route?: string;
+  /** Routes viewed during the session, in order (route tracking only) */
+  page_views?: PageViewSegment[];
+  /** Why the session was split (rollover ends only) */
+  rollover?: SessionRolloverReason;
 }
 
 /**
  * Session life event data (periodic heartbeat)
  */
-export interface SessionLifeData {
+export interface SessionLifeData extends SessionEventIds, SessionEngagement {
+  duration: number;
+  total_duration: number;
+  timestamp: number;
+  /** Index of the heartbeatSchedule step that produced the heartbeat (0 without a schedule) */
+  step: number;
+  /** Current route (route tracking only) */
+  route?: string;
+}
+
+/**
+ * Time spent on one route of a single-page app
+ */
+export interface PageViewSegment {
+  route: string;
+  start_time: number;
   duration: number;
+}
+
+/**
+ * Route change event data (route tracking only)
+ */
+export interface SessionRouteChangeData extends SessionEventIds {
+  route: string;
+  previous_route: string;
+  /** Time spent on the previous route */
+  previous_duration: number;
+  timestamp: number;
+}
+
+/**
+ * Session pause event data (page hidden, session may still resume)
+ */
+export interface SessionPauseData extends SessionEventIds {
+  /** What paused the session */
+  reason: SessionPauseReason;
+  duration: number;
+  total_duration: number;
+  timestamp: number;
+}
+
+/**
+ * Session resume event data (page visible again within the resume threshold)
+ */
+export interface SessionResumeData extends SessionEventIds {
+  /** What resumed the session */
+  reason: SessionResumeReason;
+  /** How long the session was paused */
+  pause_duration: number;
   total_duration: number;
   timestamp: number;
 }
 
 /**
- * Session event handler function types
+ * Session state
+ */
+export enum SessionState {
+  INACTIVE = 'inactive',
+  ACTIVE = 'active',
+  PAUSED = 'paused'
+}
+
+/**
+ * Snapshot of the current session
+ */
+export interface SessionInfo {
+  state: SessionState;
+  /** Id of the current (or last) session, null before the first session */
+  session_id: string | null;
+  /** Start time of the current session, null before the first session */
+  start_time: number | null;
+  /** Time of the last user activity, null before the first session */
+  last_activity_time: number | null;
+  /** Start time of the current pause, null when not paused */
+  pause_start_time: number | null;
+}
+
+/**
+ * Session event handler function types (returned promises are awaited)
+ */
+export type SessionStartHandler = (data: SessionStartData) => void | Promise<void>;
+export type SessionEndHandler = (data: SessionEndData) => void | Promise<void>;
+export type SessionLifeHandler = (data: SessionLifeData) => void | Promise<void>;
+export type SessionPauseHandler = (data: SessionPauseData) => void | Promise<void>;
+export type SessionResumeHandler = (data: SessionResumeData) => void | Promise<void>;
+export type SessionRouteChangeHandler = (data: SessionRouteChangeData) => void | Promise<void>;
+export type SessionStateChangeHandler = (
+  prev: SessionState,
+  next: SessionState,
+  reason: string
+) => void | Promise<void>;
+
+/**
+ * Called when an event handler throws, rejects or times out, or a plugin throws
+ * @param eventName - The event, or 'plugin_setup' / 'plugin_teardown' for plugin lifecycle hooks
+ * @param payload - The event data (for state_change: [prev, next, reason]), null for plugin lifecycle hooks
+ * @param plugin - Name of the plugin that threw, if any
+ */
+export type SessionErrorHandler = (
+  error: unknown,
+  eventName: SessionEventName | 'plugin_setup' | 'plugin_teardown',
+  payload: unknown,
+  plugin?: string
+) => void;
+
+/**
+ * Session events and their listener arguments
+ */
+export type SessionEventMap = {
+  session_start: [SessionStartData];
+  session_end: [SessionEndData];
+  session_life: [SessionLifeData];
+  session_pause: [SessionPauseData];
+  session_resume: [SessionResumeData];
+  state_change: [SessionState, SessionState, string];
+  route_change: [SessionRouteChangeData];
+};
+
+/**
+ * Session event names
+ */
+export type SessionEventName = keyof SessionEventMap;
+
+/**
+ * Listener for a session event
+ */
+export type SessionEventHandler<K extends SessionEventName> = (...args: SessionEventMap[K]) => void | Promise<void>;
+
+/**
+ * Listener receiving every session event, prefixed with the event name
  */
-export type SessionStartHandler = (data: SessionStartData) => void;
-export type SessionEndHandler = (data: SessionEndData) => void;
-export type SessionLifeHandler = (data: SessionLifeData) => void;
+export type SessionWildcardHandler = (
+  event: SessionEventName,
+  ...args: SessionEventMap[SessionEventName]
+) => void | Promise<void>;
 
 /**
  * Session lifecycle methods interface
@@ -44,19 +375,147 @@ export interface SessionLifecycleMethods {
    * Register a callback function to be called when session starts
    * @param callback - The function to be called on session start
    */
-  on_session_start: (callback: SessionStartHandler) => void;
+  on_session_start: (callback: SessionStartHandler) => Unsubscribe;
   
   /**
    * Register a callback function to be called when session ends  
    * @param callback - The function to be called on session end
    */
-  on_session_end: (callback: SessionEndHandler) => void;
+  on_session_end: (callback: SessionEndHandler) => Unsubscribe;
   
   /**
    * Register a callback function to be called periodically during active session
    * @param callback - The function to be called on session life event
    */
-  on_session_life: (callback: SessionLifeHandler) => void;
+  on_session_life: (callback: SessionLifeHandler) => Unsubscribe;
+
+  /**
+   * Register a callback function to be called when the session is paused (page hidden)
+   * @param callback - The function to be called on session pause
+   */
+  on_session_pause: (callback: SessionPauseHandler) => Unsubscribe;
+
+  /**
+   * Register a callback function to be called when a paused session resumes
+   * @param callback - The function to be called on session resume
+   */
+  on_session_resume: (callback: SessionResumeHandler) => Unsubscribe;
+
+  /**
+   * Register a callback function to be called whenever the session state changes
+   * @param callback - Called with the previous state, the new state and the reason
+   */
+  on_state_change: (callback: SessionStateChangeHandler) => Unsubscribe;
+
+  /**
+   * Register a callback function to be called when the route of a single-page app changes
+   * (requires routeTracking)
+   * @param callback - The function to be called on route change
+   */
+  on_route_change: (callback: SessionRouteChangeHandler) => Unsubscribe;
+
+  /**
+   * Register a listener for a session event, or for every event with '*'
+   * @returns Function that removes the listener
+   */
+  on<K extends SessionEventName>(event: K, handler: SessionEventHandler<K>): Unsubscribe;
+  on(event: '*', handler: SessionWildcardHandler): Unsubscribe;
+
+  /**
+   * Register a listener that is removed after its first call
+   * @returns Function that removes the listener
+   */
+  once<K extends SessionEventName>(event: K, handler: SessionEventHandler<K>): Unsubscribe;
+  once(event: '*', handler: SessionWildcardHandler): Unsubscribe;
+
+  /**
+   * Remove a listener, or every listener of the event when no handler is given
+   */
+  off<K extends SessionEventName>(event: K, handler?: SessionEventHandler<K>): void;
+  off(event: '*', handler?: SessionWildcardHandler): void;
+
+  /**
+   * Get the current session state
+   */
+  getState: () => SessionState;
+
+  /**
+   * Get a snapshot of the current session
+   */
+  getSessionInfo: () => SessionInfo;
+
+  /**
+   * Get the id of the current session
+   * @returns The session id, or null if no session has been started yet
+   */
+  getSessionId: () => string | null;
+
+  /**
+   * Get the detected (or configured) device information
+   */
+  getDeviceInfo: () => DeviceInfo;
+
+  /**
+   * Start a new session, ending the current one first
+   * @param type - Start type reported in the start event (default: 'active')
+   */
+  start: (type?: SessionStartType) => Promise<void>;
+
+  /**
+   * End the current session (e.g. on logout)
+   * @param reason - Reason reported in the session_end payload and to state change listeners (default: 'manual')
+   */
+  end: (reason?: string) => Promise<void>;
+
+  /**
+   * Pause the current session as if the page became hidden
+   */
+  pause: () => Promise<void>;
+
+  /**
+   * Resume a paused session as if the page became visible
+   */
+  resume: () => void;
+
+  /**
+   * Report user activity (e.g. during a long-running upload)
+   */
+  touch: () => void;
+
+  /**
+   * Register a detector that keeps the session alive while it reports busy
+   * @returns Function that removes the detector
+   */
+  addActivityDetector: (detector: ActivityDetector) => Unsubscribe;
+
+  /**
+   * Wait for in-flight event handlers
+   * @param timeout - Maximum time to wait in milliseconds (default: shutdownTimeout)
+   * @returns Whether every handler settled in time
+   */
+  waitForCallbacks: (timeout?: number) => Promise<boolean>;
+
+  /**
+   * Add a plugin that enriches, filters or samples events
+   * @returns Function that removes the plugin
+   */
+  use: (plugin: SessionPlugin) => Unsubscribe;
+
+  /**
+   * Set the identified user; a different identity ends the session and starts a new one
+   * @param userId - User id, or null when the user logs out
+   */
+  identify: (userId: string | null) => Promise<void>;
+
+  /**
+   * Merge properties into the context attached to every event payload
+   */
+  setContext: (props: SessionContext) => void;
+
+  /**
+   * Remove all context properties
+   */
+  clearContext: () => void;
 }
 
 /**
@@ -67,164 +526,714 @@ export interface SessionLifecycleConfig {
   heartbeatInterval?: number;
   /** User inactivity timeout in milliseconds (default: 120000 = 2min) */
   inactivityTimeout?: number;
+  /**
+   * Time without user activity after which an active session counts as idle
+   * in the active_ms / idle_ms breakdown (default: 30000 = 30s)
+   */
+  idleThreshold?: number;
   /** Enable debug logging (default: false) */
   debug?: boolean;
+  /**
+   * Expose the current session id through a first-party cookie so server logs
+   * can be joined with lifecycle events (default: false)
+   */
+  sessionIdCookie?: boolean | SessionIdCookieOptions;
+  /**
+   * Treat all tabs of the origin as one logical session (default: false).
+   * Activity is shared between tabs, only the leader tab emits heartbeats and
+   * the session ends only when every tab is hidden or idle.
+   */
+  crossTab?: boolean | CrossTabConfig;
+  /**
+   * Persist the session between page loads and continue it (start type 'resume')
+   * when the page is loaded again within the continuation window (default: false)
+   */
+  persistence?: boolean | SessionPersistenceConfig;
+  /**
+   * Deliver lifecycle events to an HTTP endpoint with batching, retries,
+   * sendBeacon on unload and an offline queue (default: false)
+   */
+  reporter?: false | ReporterConfig;
+  /** Time source, e.g. a VirtualTime instance in tests (default: Date.now) */
+  clock?: Clock;
+  /** Timer functions, e.g. a VirtualTime instance in tests (default: global timers) */
+  scheduler?: Scheduler;
+  /**
+   * Source of visibility, activity, unload and network signals
+   * (default: DomEnvironment in browsers, none elsewhere)
+   */
+  environment?: EnvironmentAdapter | null;
+  /**
+   * Compatibility mode: fire on_session_end when the session is paused and
+   * on_session_start when it resumes after the threshold, like versions <= 1.0.3.
+   * When false, a pause fires on_session_pause and the session only ends once the
+   * pause exceeds the resume threshold (default: false)
+   */
+  legacyPauseEvents?: boolean;
+  /**
+   * Activity sources: DOM events counted as activity and detectors that keep
+   * the session alive while busy (default: built-in events, media playback and
+   * fullscreen detectors)
+   */
+  activity?: ActivityConfig;
+  /**
+   * Use the Idle Detection API, when available and permitted, to see system-wide
+   * activity and screen locks: system activity keeps the session alive and a
+   * locked screen ends it (default: false)
+   */
+  idleDetection?: boolean | IdleDetectionConfig;
+  /**
+   * How the handlers of one event run: all at once ('parallel') or each after the
+   * previous handler's promise settled ('sequential') (default: 'parallel')
+   */
+  callbackMode?: DispatchMode;
+  /** Time in milliseconds after which a pending handler promise is abandoned, 0 for none (default: 5000) */
+  callbackTimeout?: number;
+  /** Called when a handler throws, rejects or times out, or a plugin throws (default: console.error) */
+  onError?: SessionErrorHandler | null;
+  /**
+   * Maximum time in milliseconds destroy() and the unload path wait for
+   * in-flight handlers (default: 3000)
+   */
+  shutdownTimeout?: number;
+  /** Plugins that enrich, filter or sample events (default: none) */
+  plugins?: SessionPlugin[];
+  /**
+   * Track single-page app routes (history API and hash changes): emits
+   * on_route_change, adds the route to life/end payloads and page views to end
+   * payloads. Route changes count as user activity (default: false)
+   */
+  routeTracking?: boolean | RouteTrackingConfig;
+  /**
+   * Maximum session length in milliseconds. A longer session ends and a new one
+   * (start type 'rollover') starts immediately, 0 for no limit (default: 0)
+   */
+  maxSessionDuration?: number;
+  /**
+   * End the session and start a new one (start type 'rollover') when the
+   * calendar day changes in `timeZone` (default: false)
+   */
+  splitAtMidnight?: boolean;
+  /** IANA time zone used by splitAtMidnight, null for the local time zone (default: null) */
+  timeZone?: string | null;
+  /**
+   * What happens when a paused session becomes visible again: a grace period in
+   * milliseconds, 'new_session', 'resume' or a function of the pause duration and
+   * device class; null for a grace period of heartbeatInterval (default: null)
+   */
+  resumePolicy?: ResumePolicy | null;
+  /**
+   * Longest pause in milliseconds after which the paused session ends, whatever
+   * the resumePolicy; also bounds 'resume' and function policies. 0 or Infinity
+   * for no limit (default: 1800000)
+   */
+  maxPauseDuration?: number;
+  /**
+   * Heartbeat intervals by session age, with optional wall-clock alignment and
+   * skipping of unchanged heartbeats; null for a fixed heartbeatInterval (default: null)
+   */
+  heartbeatSchedule?: HeartbeatScheduleConfig | null;
+  /**
+   * Lateness of the heartbeat timer in milliseconds (time between when it was
+   * due and when it fired, or is noticed overdue) after which the system is
+   * considered to have slept: the session ends at the last time it was known
+   * alive (reason 'system_sleep') and a new one starts. 0 disables detection;
+   * null for 3 × heartbeatInterval (default: null)
+   */
+  sleepThreshold?: number | null;
+  /**
+   * Config blocks merged over this config by device class, e.g.
+   * `{ mobile: { heartbeatInterval: 60000 } }` (default: none)
+   */
+  profiles?: SessionConfigProfiles;
+  /**
+   * Registry name of the instance: createSessionLifecycle() replaces only the
+   * instance with the same name (default: 'default')
+   */
+  name?: string;
+  /**
+   * Share the DOM listeners with other instances using the same activity
+   * options instead of attaching a full set per instance (default: true)
+   */
+  shareListeners?: boolean;
+  /**
+   * Device class override: a forced class, or a function receiving the built-in
+   * detection (Client Hints, then User-Agent) and returning the class to use;
+   * null for the built-in detection (default: null)
+   */
+  deviceClass?: DeviceClass | DeviceDetector | null;
+  /**
+   * Accept activity and visibility signals from iframes running
+   * connectParentSession() and let them follow the session; same-origin frames
+   * are always allowed, cross-origin frames need `allowedOrigins` (default: false)
+   */
+  iframeBridge?: boolean | IframeBridgeConfig;
 }
 
 /**
- * Session state enum
+ * Options for the session id cookie
  */
-enum SessionState {
-  INACTIVE = 'inactive',
-  ACTIVE = 'active',
-  PAUSED = 'paused'
+export interface SessionIdCookieOptions extends CookieOptions {
+  /** Cookie name (default: 'sl_session_id') */
+  name?: string;
+}
+
+/**
+ * Id of the current page load, shared by every instance created on this page
+ */
+const PAGE_INSTANCE_ID = generateId();
+
+/**
+ * Options for ending a session
+ */
+interface EndSessionOptions {
+  /** Reason reported in the end event */
+  reason: SessionEndReason;
+  /** Reason reported to state change listeners (default: the end reason) */
+  stateReason?: string;
+  /** Keep the persisted state so the next page load can continue the session */
+  continuable?: boolean;
+  /** End time of the session (default: now, or the pause start when paused) */
+  endTime?: number;
+  /** Rollover reason reported in the end event */
+  rollover?: SessionRolloverReason;
 }
 
 /**
  * SessionLifecycle class for managing session lifecycle events
  */
 export class SessionLifecycle {
-  private startCallbacks: SessionStartHandler[] = [];
-  private endCallbacks: SessionEndHandler[] = [];
-  private lifeCallbacks: SessionLifeHandler[] = [];
+  private emitter: TypedEventEmitter<SessionEventMap>;
   private config: Required<SessionLifecycleConfig>;
+  private clock: Clock;
+  private scheduler: Scheduler;
   
   // State management
   private state: SessionState = SessionState.INACTIVE;
   private sessionStartTime: number = 0;
   private lastActivityTime: number = 0;
   private lastHeartbeatTime: number = 0;
+  private lastAliveTime: number = 0; // 最近一次确认页面仍在运行的时间（心跳或活动）
+  private heartbeatDueTime: number = 0; // 待触发心跳的计划时间，用于检测定时器延迟（休眠）
+  private lastHeartbeatRoute = '';
+  private currentHeartbeatInterval: number;
   private lastEventTime: number = 0;
   private pauseStartTime: number = 0;
+  private sessionId: string = '';
+  private sequence: number = 0;
   
   // Timers
-  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
-  private inactivityTimer: ReturnType<typeof setTimeout> | null = null;
-  private initTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: TimerHandle | null = null;
+  private inactivityTimer: TimerHandle | null = null;
+  private initTimer: TimerHandle | null = null;
+  private pauseExpiryTimer: TimerHandle | null = null;
+  private rolloverTimer: TimerHandle | null = null;
+  private pauseReason: SessionPauseReason = 'hidden';
+  private resumeOnVisible = false;
   
-  // Event listeners
-  private visibilityChangeListener: (() => void) | null = null;
-  private activityListeners: Array<{ element: Element | Document | Window, event: string, listener: () => void }> = [];
-  private beforeUnloadListener: (() => void) | null = null;
-  private mobileLifecycleListeners: Array<{ element: Element | Document | Window, event: string, listener: () => void }> = [];
+  // Environment signals (visibility, activity, unload, network)
+  private environment: EnvironmentAdapter | null;
+
+  // Cross-tab coordination
+  private crossTab: CrossTabCoordinator | null = null;
+
+  // Event delivery
+  private reporter: EventReporter | null = null;
+
+  // Signals from and events to embedded frames
+  private iframeBridge: IframeBridgeHost | null = null;
+
+  // Persistence across page loads
+  private persistence: SessionPersistence | null = null;
+  private continuationWindow = 0;
+  private lastPersistTime = 0;
   
+  // Detectors that keep the session alive while busy (media playback, fullscreen, ...)
+  private activityDetectors: ActivityDetector[];
+
+  // System-level idleness and screen lock (Idle Detection API)
+  private idleMonitor: IdleDetectionMonitor | null = null;
+  private systemActivity: ManualActivityDetector | null = null;
+  private screenLocked = false;
+
+  // Identity and custom properties attached to every payload
+  private userId: string | null = null;
+  private context: SessionContext = {};
+  private hasContext = false;
+
+  // SPA route tracking
+  private routeTracker: RouteTracker | null = null;
+  private pageViews: PageViewSegment[] = [];
+  private routeStartTime = 0;
+
+  // Plugins (config plugins first, then use())
+  private plugins: SessionPlugin[];
+
+  // Active / idle / hidden time of the current session
+  private engagement: EngagementTracker;
+
   private isInitialized = false;
   private isMobile = false;
+  private deviceInfo: DeviceInfo;
 
   /**
    * Create a new SessionLifecycle instance
    * @param config - Optional configuration object
    */
   constructor(config: SessionLifecycleConfig = {}) {
-    // 检测移动设备
-    this.isMobile = this.detectMobileDevice();
+    // 检测设备类型（平板同样启用移动端处理）
+    this.deviceInfo = resolveDeviceInfo(config.deviceClass || null);
+    this.isMobile = this.deviceInfo.device_class !== 'desktop';
     
-    // 根据设备类型设置默认配置
-    const mobileOptimizedDefaults = this.isMobile ? {
-      heartbeatInterval: 30000, // 移动端使用更长的心跳间隔以节省电量
-      inactivityTimeout: 120000, // 移动端使用更长的不活动超时（3分钟）
-      debug: false
-    } : {
-      heartbeatInterval: 30000, // 桌面端30秒
-      inactivityTimeout: 120000, // 桌面端2分钟
-      debug: false
+    const defaults: Required<SessionLifecycleConfig> = {
+      heartbeatInterval: 30000, // 30秒心跳
+      inactivityTimeout: 120000, // 2分钟不活动超时
+      idleThreshold: 30000,
+      debug: false,
+      sessionIdCookie: false,
+      crossTab: false,
+      persistence: false,
+      reporter: false,
+      clock: systemClock,
+      scheduler: systemScheduler,
+      environment: null,
+      legacyPauseEvents: false,
+      activity: {},
+      idleDetection: false,
+      callbackMode: 'parallel',
+      callbackTimeout: 5000,
+      onError: null,
+      shutdownTimeout: 3000,
+      plugins: [],
+      routeTracking: false,
+      maxSessionDuration: 0,
+      splitAtMidnight: false,
+      timeZone: null,
+      resumePolicy: null,
+      maxPauseDuration: 1800000,
+      heartbeatSchedule: null,
+      sleepThreshold: null,
+      profiles: {},
+      deviceClass: null,
+      name: DEFAULT_INSTANCE_NAME,
+      shareListeners: true,
+      iframeBridge: false
     };
 
+    // 按设备类型合并配置：默认值 < 基础配置 < 设备类型配置
+    const profile = config.profiles ? config.profiles[this.deviceInfo.device_class] : undefined;
     this.config = {
-      ...mobileOptimizedDefaults,
-      ...config
+      ...defaults,
+      ...config,
+      ...profile
+    };
+    // 时长基于单调时间计算，不受系统时间调整影响
+    this.clock = toMonotonicClock(this.config.clock);
+    this.currentHeartbeatInterval = this.config.heartbeatInterval;
+    this.scheduler = this.config.scheduler;
+    this.engagement = new EngagementTracker(this.config.idleThreshold);
+    this.plugins = this.config.plugins.slice();
+    this.emitter = new TypedEventEmitter<SessionEventMap>({
+      mode: this.config.callbackMode,
+      timeout: this.config.callbackTimeout,
+      scheduler: this.scheduler,
+      onError: (error, event, args) => this.handleCallbackError(error, event as SessionEventName, args)
+    });
+    const activityConfig = this.config.activity;
+    const domOptions: DomEnvironmentOptions = {
+      mobile: this.isMobile,
+      activityEvents: activityConfig.events,
+      excludeActivityEvents: activityConfig.excludeEvents,
+      activityRoot: activityConfig.root,
+      clock: this.clock
     };
+    this.environment = this.config.environment ||
+      (DomEnvironment.isSupported()
+        ? (this.config.shareListeners ? new SharedDomEnvironment(domOptions) : new DomEnvironment(domOptions))
+        : null);
+    this.activityDetectors = activityConfig.detectors
+      ? activityConfig.detectors.slice()
+      : (DomEnvironment.isSupported() ? [new MediaPlaybackDetector(), new FullscreenDetector()] : []);
 
     if (this.config.debug) {
-      this.log(`Device detected: ${this.isMobile ? 'Mobile' : 'Desktop'}`);
+      this.log(`Device detected: ${this.deviceInfo.device_class} via ${this.deviceInfo.source}${profile ? ' (profile applied)' : ''}`);
       this.log(`Config: heartbeat=${this.config.heartbeatInterval}ms, inactivity=${this.config.inactivityTimeout}ms`);
     }
   }
 
   /**
-   * Detect if the current device is a mobile device
+   * Get the session lifecycle methods and auto-initialize
+   * @returns Object containing session lifecycle methods
    */
-  private detectMobileDevice(): boolean {
-    if (typeof window === 'undefined' || typeof navigator === 'undefined') {
-      return false; // Server-side or non-browser environment
-    }
-
-    // 检查用户代理字符串
-    const userAgent = navigator.userAgent.toLowerCase();
-    const mobileKeywords = [
-      'android', 'webos', 'iphone', 'ipad', 'ipod', 'blackberry', 
-      'windows phone', 'mobile', 'opera mini', 'iemobile'
-    ];
-    
-    const isMobileUA = mobileKeywords.some(keyword => userAgent.includes(keyword));
+  public getMethods(): SessionLifecycleMethods {
+    const methods: SessionLifecycleMethods = {
+      on_session_start: (callback: SessionStartHandler) => this.addListener('session_start', callback),
+      
+      on_session_end: (callback: SessionEndHandler) => this.addListener('session_end', callback),
+      
+      on_session_life: (callback: SessionLifeHandler) => this.addListener('session_life', callback),
 
-    // 检查触摸支持
-    const hasTouchSupport = 'ontouchstart' in window || 
-                          (navigator.maxTouchPoints && navigator.maxTouchPoints > 0);
+      on_session_pause: (callback: SessionPauseHandler) => this.addListener('session_pause', callback),
 
-    // 检查屏幕尺寸（移动端通常较小）
-    const hasSmallScreen = window.screen && 
-                          (window.screen.width <= 768 || window.screen.height <= 768);
+      on_session_resume: (callback: SessionResumeHandler) => this.addListener('session_resume', callback),
 
-    // 检查设备方向API（主要在移动设备上可用）
-    const hasOrientationAPI = 'orientation' in window;
+      on_state_change: (callback: SessionStateChangeHandler) => this.addListener('state_change', callback),
 
-    // 综合判断
-    const isMobile = isMobileUA || (hasTouchSupport && hasSmallScreen) || hasOrientationAPI;
+      on_route_change: (callback: SessionRouteChangeHandler) => this.addListener('route_change', callback),
 
-    return isMobile;
-  }
+      on: (event: SessionEventName | '*', handler: (...args: any[]) => void) => {
+        return this.addListener(event, handler);
+      },
 
-  /**
-   * Get the session lifecycle methods and auto-initialize
-   * @returns Object containing session lifecycle methods
-   */
-  public getMethods(): SessionLifecycleMethods {
-    const methods: SessionLifecycleMethods = {
-      on_session_start: (callback: SessionStartHandler) => {
-        if (typeof callback !== 'function') {
-          throw new Error('Callback must be a function');
-        }
-        this.startCallbacks.push(callback);
-        // 延迟初始化，确保第一个回调函数注册后再初始化
-        this.scheduleInitialization();
+      once: (event: SessionEventName | '*', handler: (...args: any[]) => void) => {
+        return this.addListener(event, handler, true);
       },
-      
-      on_session_end: (callback: SessionEndHandler) => {
-        if (typeof callback !== 'function') {
-          throw new Error('Callback must be a function');
-        }
-        this.endCallbacks.push(callback);
-        this.scheduleInitialization();
+
+      off: (event: SessionEventName | '*', handler?: (...args: any[]) => void) => {
+        this.emitter.off(event as SessionEventName, handler);
       },
-      
-      on_session_life: (callback: SessionLifeHandler) => {
-        if (typeof callback !== 'function') {
-          throw new Error('Callback must be a function');
-        }
-        this.lifeCallbacks.push(callback);
-        this.scheduleInitialization();
-      }
+
+      getState: () => this.getState(),
+
+      getSessionInfo: () => this.getSessionInfo(),
+
+      getSessionId: () => this.getSessionId(),
+
+      getDeviceInfo: () => this.getDeviceInfo(),
+
+      start: (type?: SessionStartType) => this.start(type),
+
+      end: (reason?: string) => this.end(reason),
+
+      pause: () => this.pause(),
+
+      resume: () => this.resume(),
+
+      touch: () => this.touch(),
+
+      addActivityDetector: (detector: ActivityDetector) => this.addActivityDetector(detector),
+
+      waitForCallbacks: (timeout?: number) => this.waitForCallbacks(timeout),
+
+      use: (plugin: SessionPlugin) => this.use(plugin),
+
+      identify: (userId: string | null) => this.identify(userId),
+
+      setContext: (props: SessionContext) => this.setContext(props),
+
+      clearContext: () => this.clearContext()
     };
 
     return methods;
   }
 
   /**
-   * Schedule delayed initialization to ensure callbacks are registered first
+   * Register a listener and schedule initialization
    */
-  private scheduleInitialization(): void {
-    if (this.isInitialized || typeof window === 'undefined') {
-      return;
-    }
-
-    // Clear any existing initialization timer
-    if (this.initTimer) {
-      clearTimeout(this.initTimer);
-    }
+  private addListener(event: SessionEventName | '*', handler: (...args: any[]) => void, once = false): Unsubscribe {
+    const unsubscribe = once
+      ? this.emitter.once(event as SessionEventName, handler)
+      : this.emitter.on(event as SessionEventName, handler);
+    // 延迟初始化，确保第一个回调函数注册后再初始化
+    this.scheduleInitialization();
+    return unsubscribe;
+  }
+
+  /**
+   * Get the id of the current session
+   * @returns The session id, or null if no session has been started yet
+   */
+  public getSessionId(): string | null {
+    return this.sessionId || null;
+  }
+
+  /**
+   * Get the current session state
+   */
+  public getState(): SessionState {
+    return this.state;
+  }
+
+  /**
+   * Get a snapshot of the current session
+   */
+  public getSessionInfo(): SessionInfo {
+    const started = this.sessionId !== '';
+    return {
+      state: this.state,
+      session_id: started ? this.sessionId : null,
+      start_time: started ? this.sessionStartTime : null,
+      last_activity_time: started ? this.lastActivityTime : null,
+      pause_start_time: this.state === SessionState.PAUSED ? this.pauseStartTime : null
+    };
+  }
+
+  /**
+   * Get the id of the current page load
+   * @returns The page-load instance id shared by all session events of this page
+   */
+  public getInstanceId(): string {
+    return PAGE_INSTANCE_ID;
+  }
+
+  /**
+   * Start a new session, ending the current one first
+   * @param type - Start type reported in the start event (default: 'active')
+   */
+  public async start(type: SessionStartType = 'active'): Promise<void> {
+    if (!this.isInitialized) {
+      // 尚未初始化：立即初始化，但由调用方决定会话类型
+      this.initialize(false);
+    } else if (this.initTimer) {
+      // 取消等待中的初始会话（跨标签页发现阶段）
+      this.scheduler.clearTimeout(this.initTimer);
+      this.initTimer = null;
+    }
+
+    if (this.hasOpenSession()) {
+      await this.endSession({ reason: 'restart' });
+    }
+    this.startSession(type, 'manual');
+  }
+
+  /**
+   * End the current session
+   * @param reason - Reason reported in the end event and to state change listeners (default: 'manual')
+   */
+  public async end(reason: SessionEndReason = 'manual'): Promise<void> {
+    if (this.hasOpenSession()) {
+      await this.endSession({ reason });
+    } else if (this.state === SessionState.PAUSED) {
+      // 兼容模式下暂停时已触发 end 事件，只更新状态
+      this.setState(SessionState.INACTIVE, reason);
+      if (this.persistence) {
+        this.persistence.clear();
+      }
+    }
+  }
+
+  /**
+   * Get the registry name of the instance
+   */
+  public getName(): string {
+    return this.config.name;
+  }
+
+  /**
+   * Get the detected (or configured) device information
+   */
+  public getDeviceInfo(): DeviceInfo {
+    return { ...this.deviceInfo };
+  }
+
+  /**
+   * Set the identified user. When the identity changes, the current session
+   * ends and a new one starts with type 'identify'; setting the same identity
+   * again does nothing.
+   * @param userId - User id, or null when the user logs out
+   */
+  public async identify(userId: string | null): Promise<void> {
+    const next = userId || null;
+    if (next === this.userId) return;
+
+    this.log(`Identity changed: ${this.userId} -> ${next}`);
+    if (this.state === SessionState.PAUSED && this.config.legacyPauseEvents) {
+      // 兼容模式下暂停时已触发 end：丢弃暂停的会话，重新可见时以新身份开始新会话
+      this.stopPauseExpiryTimer();
+      this.setState(SessionState.INACTIVE, 'identify');
+      this.resumeOnVisible = true;
+      this.userId = next;
+      if (this.persistence) {
+        this.persistence.clear();
+      }
+      this.syncCrossTabState();
+      return;
+    }
+    if (!this.hasOpenSession()) {
+      this.userId = next;
+      this.persistSession(true);
+      return;
+    }
+
+    // 结束事件仍属于之前的用户，新会话属于新用户
+    const ending = this.endSession({ reason: 'identify' });
+    this.userId = next;
+    if (this.isPageVisible()) {
+      this.startSession('identify', 'identify');
+    } else {
+      this.resumeOnVisible = true;
+    }
+    await ending;
+  }
+
+  /**
+   * Merge properties into the context attached to every event payload
+   */
+  public setContext(props: SessionContext): void {
+    this.context = { ...this.context, ...props };
+    this.hasContext = Object.keys(this.context).length > 0;
+  }
+
+  /**
+   * Remove all context properties
+   */
+  public clearContext(): void {
+    this.context = {};
+    this.hasContext = false;
+  }
+
+  /**
+   * Pause the current session as if the page became hidden
+   */
+  public async pause(): Promise<void> {
+    await this.pauseSession('manual');
+  }
+
+  /**
+   * Resume a paused session as if the page became visible
+   */
+  public resume(): void {
+    this.resumeSession('manual');
+  }
+
+  /**
+   * Report user activity
+   */
+  public touch(): void {
+    if (!this.isInitialized && this.state === SessionState.INACTIVE) {
+      this.log('Ignoring activity - not initialized');
+      return;
+    }
+    this.onUserActivity();
+  }
+
+  /**
+   * Register a detector that keeps the session alive while it reports busy
+   * @returns Function that removes the detector
+   */
+  public addActivityDetector(detector: ActivityDetector): Unsubscribe {
+    this.activityDetectors.push(detector);
+    if (this.isInitialized) {
+      this.attachActivityDetector(detector);
+    }
+
+    return () => {
+      const index = this.activityDetectors.indexOf(detector);
+      if (index === -1) return;
+      this.activityDetectors.splice(index, 1);
+      detector.detach();
+    };
+  }
+
+  /**
+   * Add a plugin; it is set up immediately if the lifecycle is already initialized
+   * @returns Function that removes the plugin
+   */
+  public use(plugin: SessionPlugin): Unsubscribe {
+    if (!plugin || typeof plugin.name !== 'string') {
+      throw new Error('Plugin must have a name');
+    }
+
+    this.plugins.push(plugin);
+    if (this.isInitialized) {
+      this.setupPlugin(plugin);
+    }
+
+    return () => {
+      const index = this.plugins.indexOf(plugin);
+      if (index === -1) return;
+      this.plugins.splice(index, 1);
+      if (this.isInitialized) {
+        this.teardownPlugin(plugin);
+      }
+    };
+  }
+
+  /**
+   * Wait for in-flight event handlers
+   * @param timeout - Maximum time to wait in milliseconds (default: shutdownTimeout)
+   * @returns Whether every handler settled in time
+   */
+  public waitForCallbacks(timeout: number = this.config.shutdownTimeout): Promise<boolean> {
+    return this.emitter.whenIdle(timeout);
+  }
+
+  /**
+   * Call a plugin's setup hook
+   */
+  private setupPlugin(plugin: SessionPlugin): void {
+    if (!plugin.setup) return;
+
+    const context: PluginContext = {
+      getSessionInfo: () => this.getSessionInfo(),
+      log: (message: string) => this.log(`[${plugin.name}] ${message}`)
+    };
+    try {
+      plugin.setup(context);
+    } catch (error) {
+      this.handlePluginError(error, plugin, 'plugin_setup', null);
+    }
+  }
+
+  /**
+   * Call a plugin's teardown hook
+   */
+  private teardownPlugin(plugin: SessionPlugin): void {
+    if (!plugin.teardown) return;
+
+    try {
+      plugin.teardown();
+    } catch (error) {
+      this.handlePluginError(error, plugin, 'plugin_teardown', null);
+    }
+  }
+
+  /**
+   * Report a failed event handler to the onError hook, or log it
+   */
+  private handleCallbackError(error: unknown, event: SessionEventName, args: unknown[]): void {
+    if (this.config.onError) {
+      this.config.onError(error, event, args.length === 1 ? args[0] : args);
+    } else {
+      console.error(`Error in ${event.replace('_', ' ')} callback:`, error);
+    }
+  }
+
+  /**
+   * Report a failed plugin hook to the onError hook, or log it
+   */
+  private handlePluginError(
+    error: unknown,
+    plugin: SessionPlugin,
+    event: PluginEventName | 'plugin_setup' | 'plugin_teardown',
+    payload: unknown
+  ): void {
+    if (this.config.onError) {
+      this.config.onError(error, event, payload, plugin.name);
+    } else if (event === 'plugin_setup') {
+      console.error(`Error setting up plugin ${plugin.name}:`, error);
+    } else if (event === 'plugin_teardown') {
+      console.error(`Error tearing down plugin ${plugin.name}:`, error);
+    } else {
+      console.error(`Error in plugin ${plugin.name}:`, error);
+    }
+  }
+
+  /**
+   * Schedule delayed initialization to ensure callbacks are registered first
+   */
+  private scheduleInitialization(): void {
+    if (this.isInitialized || !this.environment) {
+      return;
+    }
+
+    // Clear any existing initialization timer
+    if (this.initTimer) {
+      this.scheduler.clearTimeout(this.initTimer);
+    }
 
     // Schedule initialization after a short delay to ensure all callbacks are registered
-    this.initTimer = setTimeout(() => {
+    this.initTimer = this.scheduler.setTimeout(() => {
       if (!this.isInitialized) {
         this.initialize();
       }
@@ -232,392 +1241,1278 @@ export class SessionLifecycle {
   }
 
   /**
-   * Initialize session tracking
+   * Initialize session tracking
+   * @param autoStart - Start the initial session (default: true)
+   */
+  private initialize(autoStart = true): void {
+    if (this.isInitialized || !this.environment) {
+      return;
+    }
+
+    this.log(`Initializing session lifecycle tracking (environment: ${this.environment.name})`);
+    this.isInitialized = true;
+    if (this.initTimer) {
+      this.scheduler.clearTimeout(this.initTimer);
+      this.initTimer = null;
+    }
+    this.sessionStartTime = this.clock.now();
+    this.lastActivityTime = this.sessionStartTime;
+
+    // Set up environment signals
+    this.plugins.forEach(plugin => this.setupPlugin(plugin));
+    this.environment.attach(this.createEnvironmentSignals());
+    this.activityDetectors.forEach(detector => this.attachActivityDetector(detector));
+
+    if (this.config.reporter) {
+      this.setupReporter(this.config.reporter);
+    }
+
+    if (this.config.persistence) {
+      this.setupPersistence(this.config.persistence === true ? {} : this.config.persistence);
+    }
+
+    if (this.config.crossTab) {
+      this.setupCrossTab(this.config.crossTab === true ? {} : this.config.crossTab);
+    }
+
+    if (this.config.routeTracking) {
+      this.setupRouteTracking(this.config.routeTracking === true ? {} : this.config.routeTracking);
+    }
+
+    if (this.config.idleDetection) {
+      this.setupIdleDetection(this.config.idleDetection === true ? {} : this.config.idleDetection);
+    }
+
+    if (this.config.iframeBridge) {
+      this.setupIframeBridge(this.config.iframeBridge === true ? {} : this.config.iframeBridge);
+    }
+
+    if (!autoStart) return;
+
+    if (this.crossTab) {
+      // 等待其他标签页应答，以便加入已有的会话
+      this.initTimer = this.scheduler.setTimeout(() => {
+        this.initTimer = null;
+        this.startSession('init', 'init');
+      }, this.crossTab.discoveryDelay);
+    } else {
+      // Start session
+      this.startSession('init', 'init');
+    }
+  }
+
+  /**
+   * Set up the built-in event reporter
+   */
+  private setupReporter(reporterConfig: ReporterConfig): void {
+    this.reporter = new EventReporter(reporterConfig, message => this.log(message), this.clock, this.scheduler);
+
+    // 回放上次离线时未发送的事件
+    if (!this.environment || this.environment.isOnline()) {
+      this.reporter.replayOfflineQueue();
+    }
+  }
+
+  /**
+   * Hand an event to the reporter and to subscribed frames, if configured
+   */
+  private report(message: IframeBridgeEvent): void {
+    if (this.reporter) {
+      this.reporter.enqueue(message);
+    }
+    if (this.iframeBridge) {
+      this.iframeBridge.publish(message);
+    }
+  }
+
+  /**
+   * Set up persistence of the session state across page loads
+   */
+  private setupPersistence(persistenceConfig: SessionPersistenceConfig): void {
+    const adapter = resolveStorageAdapter(persistenceConfig.storage || 'sessionStorage', persistenceConfig.cookie);
+    if (!adapter) {
+      this.log('Session persistence unavailable - storage not supported');
+      return;
+    }
+
+    this.persistence = new SessionPersistence(adapter, persistenceConfig.key || 'session-lifecycle:session');
+    this.continuationWindow = typeof persistenceConfig.continuationWindow === 'number'
+      ? persistenceConfig.continuationWindow
+      : this.config.inactivityTimeout;
+  }
+
+  /**
+   * Save the current session state (throttled to once per second unless forced)
+   */
+  private persistSession(force = false): void {
+    if (!this.persistence || !this.sessionId) return;
+
+    const now = this.clock.now();
+    if (!force && now - this.lastPersistTime < 1000) return;
+    this.lastPersistTime = now;
+
+    this.persistence.save({
+      sessionId: this.sessionId,
+      startTime: this.sessionStartTime,
+      lastActivityTime: this.lastActivityTime,
+      lastHeartbeatTime: this.lastHeartbeatTime,
+      seq: Math.max(this.sequence - 1, 0),
+      userId: this.userId
+    });
+  }
+
+  /**
+   * Load the session of a previous page load if it is still within the continuation window
+   */
+  private loadContinuableSession() {
+    if (!this.persistence) return null;
+
+    const record = this.persistence.load();
+    if (!record) return null;
+
+    const lastAlive = Math.max(record.lastActivityTime, record.lastHeartbeatTime);
+    if (this.clock.now() - lastAlive > this.continuationWindow) {
+      this.log('Persisted session expired - starting new session');
+      this.persistence.clear();
+      return null;
+    }
+
+    const boundary = getRolloverBoundary(record.startTime, this.config);
+    if (boundary && this.clock.now() >= boundary.time) {
+      // 已越过切分边界（如跨过午夜）：不延续
+      this.log(`Persisted session crossed its ${boundary.reason} boundary - starting new session`);
+      this.persistence.clear();
+      return null;
+    }
+
+    const recordUserId = record.userId || null;
+    if (this.userId && recordUserId !== this.userId) {
+      // 初始化前已 identify 为其他用户：不延续上一用户的会话
+      this.log('Persisted session belongs to another user - starting new session');
+      this.persistence.clear();
+      return null;
+    }
+    this.userId = recordUserId;
+
+    return record;
+  }
+
+  /**
+   * Set up single-page app route tracking
+   */
+  private setupRouteTracking(routeTrackingConfig: RouteTrackingConfig): void {
+    this.routeTracker = new RouteTracker(routeTrackingConfig, {
+      onRouteChange: (route, previousRoute, source) => this.onRouteChange(route, previousRoute, source)
+    });
+
+    if (!this.routeTracker.start()) {
+      this.log('Route tracking unavailable - history API not supported');
+      this.routeTracker = null;
+    }
+  }
+
+  /**
+   * Handle a route change: close the current page view and count it as activity
+   */
+  private onRouteChange(route: string, previousRoute: string, source: string): void {
+    if (!this.isInitialized) return;
+
+    const now = this.clock.now();
+    this.log(`Route changed (${source}): ${previousRoute} -> ${route}`);
+
+    if (this.state !== SessionState.INACTIVE) {
+      const previousDuration = Math.max(now - this.routeStartTime, 0);
+      this.pageViews.push({ route: previousRoute, start_time: this.routeStartTime, duration: previousDuration });
+      this.routeStartTime = now;
+
+      const data: SessionRouteChangeData = {
+        ...this.nextEventIds(),
+        route,
+        previous_route: previousRoute,
+        previous_duration: previousDuration,
+        timestamp: now
+      };
+      const payload = this.applyPlugins('route_change', data);
+      if (payload) {
+        this.report({ event: 'route_change', data: payload });
+        this.emitter.emit('route_change', payload);
+      }
+    }
+
+    // 路由变化视为用户活动（会话已结束时开始新会话）
+    this.onUserActivity();
+  }
+
+  /**
+   * Current route for life and end payloads
+   */
+  private getRouteFields(): { route?: string } {
+    return this.routeTracker ? { route: this.routeTracker.getRoute() } : {};
+  }
+
+  /**
+   * Get the page views of the current session, including the open one
+   */
+  private getPageViews(now: number): PageViewSegment[] {
+    if (!this.routeTracker) return [];
+    return this.pageViews.concat({
+      route: this.routeTracker.getRoute(),
+      start_time: this.routeStartTime,
+      duration: Math.max(now - this.routeStartTime, 0)
+    });
+  }
+
+  /**
+   * Set up system idle and screen lock detection; falls back to DOM activity when unavailable
+   */
+  private setupIdleDetection(idleDetectionConfig: IdleDetectionConfig): void {
+    if (!IdleDetectionMonitor.isSupported()) {
+      this.log('Idle Detection API not supported - using DOM activity only');
+      return;
+    }
+
+    // 系统级活动作为活动检测器：用户在其他应用中活跃时保持会话
+    const systemActivity = new ManualActivityDetector('system-idle');
+    this.systemActivity = systemActivity;
+    this.addActivityDetector(systemActivity);
+
+    this.idleMonitor = new IdleDetectionMonitor(idleDetectionConfig, {
+      onUserStateChange: (active) => systemActivity.setBusy(active && !this.screenLocked),
+      onScreenStateChange: (locked) => this.onScreenStateChange(locked)
+    }, message => this.log(message));
+
+    this.idleMonitor.start().catch(error => {
+      console.error('Error starting idle detection:', error);
+    });
+  }
+
+  /**
+   * Handle the screen being locked or unlocked
+   */
+  private onScreenStateChange(locked: boolean): void {
+    const wasLocked = this.screenLocked;
+    this.screenLocked = locked;
+
+    if (locked) {
+      this.log('Screen locked - ending session');
+      if (this.systemActivity) {
+        this.systemActivity.setBusy(false);
+      }
+      if (this.hasOpenSession()) {
+        this.endSession({ reason: 'screen_locked' }).catch(error => {
+          console.error('Error ending session on screen lock:', error);
+        });
+      }
+    } else if (wasLocked && this.state === SessionState.INACTIVE && this.isPageVisible()) {
+      this.log('Screen unlocked - starting new session');
+      this.startSession('active', 'screen_unlocked');
+    }
+  }
+
+  /**
+   * Set up cross-tab coordination
+   */
+  private setupCrossTab(crossTabConfig: CrossTabConfig): void {
+    const coordinator = new CrossTabCoordinator(crossTabConfig, {
+      onRemoteActivity: (timestamp) => this.onRemoteActivity(timestamp),
+      onPeerUpdate: (peer) => this.onPeerUpdate(peer),
+      onSessionEnded: (sessionId) => this.onPeerSessionEnded(sessionId),
+      onSessionRollover: (previousSessionId, peer) => this.onPeerRollover(previousSessionId, peer)
+    }, this.clock, this.scheduler);
+
+    if (!coordinator.start()) {
+      this.log('Cross-tab coordination unavailable - no BroadcastChannel or localStorage');
+      return;
+    }
+
+    this.crossTab = coordinator;
+    this.log('Cross-tab coordination enabled');
+  }
+
+  /**
+   * Handle user activity detected in another tab
+   */
+  private onRemoteActivity(timestamp: number): void {
+    this.lastActivityTime = Math.max(this.lastActivityTime, timestamp);
+
+    if (this.state === SessionState.ACTIVE) {
+      this.engagement.activity(this.clock.now());
+    } else if (this.state === SessionState.INACTIVE && this.isInitialized && this.isPageVisible()) {
+      // 其他标签页有活动且本页可见时重新加入会话
+      this.log('Activity in another tab - rejoining session');
+      this.startSession('active', 'activity');
+    }
+  }
+
+  /**
+   * Handle a session state announced by another tab
+   */
+  private onPeerUpdate(peer: CrossTabPeer): void {
+    if (!peer.sessionId) return;
+
+    if (peer.sessionId === this.sessionId) {
+      // 同一会话的序号在所有标签页间保持递增
+      this.sequence = Math.max(this.sequence, peer.seq + 1);
+    } else if (this.state === SessionState.ACTIVE && peer.active && peer.startTime < this.sessionStartTime &&
+        !this.isPastPeerRollover(peer)) {
+      // 两个标签页同时创建了会话时，统一采用更早开始的会话
+      this.log(`Adopting older cross-tab session ${peer.sessionId}`);
+      this.adoptPeerSession(peer);
+      this.syncCrossTabState();
+    }
+  }
+
+  /**
+   * Drop the local part of a logical session that another tab ended, without
+   * triggering callbacks; activity or the page becoming visible starts a new session
+   */
+  private onPeerSessionEnded(sessionId: string): void {
+    if (sessionId !== this.sessionId || this.state === SessionState.INACTIVE) return;
+
+    this.log(`Cross-tab session ${sessionId} ended in another tab - dropping it`);
+    this.stopHeartbeat();
+    this.stopInactivityTimer();
+    this.stopPauseExpiryTimer();
+    this.stopRolloverTimer();
+    this.setState(SessionState.INACTIVE, 'cross_tab_ended');
+    this.resumeOnVisible = true;
+    if (this.persistence) {
+      this.persistence.clear();
+    }
+    this.syncCrossTabState();
+  }
+
+  /**
+   * Join the session that replaces a logical session split by another tab,
+   * without triggering callbacks
+   */
+  private onPeerRollover(previousSessionId: string, peer: CrossTabPeer): void {
+    if (previousSessionId !== this.sessionId || this.state === SessionState.INACTIVE) return;
+
+    this.log(`Cross-tab session ${previousSessionId} was split in another tab - joining ${peer.sessionId}`);
+    this.adoptPeerSession(peer);
+    this.pageViews = [];
+    this.routeStartTime = peer.startTime;
+    if (this.state === SessionState.ACTIVE) {
+      this.engagement.reset(peer.startTime);
+      this.lastHeartbeatTime = peer.startTime;
+      this.startRolloverTimer();
+    }
+    this.syncCrossTabState();
+  }
+
+  /**
+   * Check whether a peer's session already reached its rollover boundary; the
+   * leader is about to split it, so it must not be joined or adopted
+   */
+  private isPastPeerRollover(peer: CrossTabPeer): boolean {
+    const boundary = getRolloverBoundary(peer.startTime, this.config);
+    return !!boundary && this.clock.now() >= boundary.time;
+  }
+
+  /**
+   * Adopt the logical session of another tab without triggering callbacks
+   */
+  private adoptPeerSession(peer: CrossTabPeer): void {
+    this.sessionId = peer.sessionId;
+    this.sessionStartTime = peer.startTime;
+    this.sequence = peer.seq + 1;
+    this.writeSessionIdCookie();
+  }
+
+  /**
+   * Broadcast the local session state to the other tabs
+   */
+  private syncCrossTabState(): void {
+    if (!this.crossTab) return;
+
+    this.crossTab.updateLocalState({
+      active: this.state === SessionState.ACTIVE,
+      sessionId: this.sessionId,
+      startTime: this.sessionStartTime,
+      seq: Math.max(this.sequence - 1, 0)
+    });
+  }
+
+  /**
+   * Set up the bridge to embedded frames
+   */
+  private setupIframeBridge(iframeBridgeConfig: IframeBridgeConfig): void {
+    const bridge = new IframeBridgeHost(iframeBridgeConfig, {
+      onActivity: (source, origin) => this.onFrameActivity(source, origin),
+      onVisibility: (visible, source, origin) => this.onFrameVisibility(visible, source, origin),
+      getSnapshot: () => ({ session_id: this.getSessionId(), state: this.state })
+    }, message => this.log(message));
+
+    if (!bridge.start()) {
+      this.log('Iframe bridge unavailable - no window');
+      return;
+    }
+
+    this.iframeBridge = bridge;
+    this.log('Iframe bridge enabled');
+  }
+
+  /**
+   * Handle user activity reported by an embedded frame
    */
-  private initialize(): void {
-    if (this.isInitialized || typeof window === 'undefined') {
-      return;
-    }
+  private onFrameActivity(source: string, origin: string): void {
+    this.log(`Activity in iframe ${origin} (${source})`);
+    this.onUserActivity();
+  }
 
-    this.log('Initializing session lifecycle tracking');
-    this.isInitialized = true;
-    this.sessionStartTime = Date.now();
-    this.lastActivityTime = this.sessionStartTime;
+  /**
+   * Handle a visibility change reported by an embedded frame
+   */
+  private onFrameVisibility(visible: boolean, source: string, origin: string): void {
+    // 页面自身的可见性为准：frame 变为可见只视为用户活动，frame 隐藏不暂停会话
+    if (!visible || !this.isPageVisible()) return;
+    this.log(`Iframe ${origin} became visible (${source})`);
+    this.onUserActivity();
+  }
 
-    // Set up event listeners
-    this.setupPageVisibilityListener();
-    this.setupActivityListeners();
-    
-    // 只在移动设备上注册移动端特定的生命周期事件
-    if (this.isMobile) {
-      this.setupMobileLifecycleListeners();
-    }
-    
-    this.setupBeforeUnloadListener();
+  /**
+   * Create the signal handlers passed to the environment adapter
+   */
+  private createEnvironmentSignals(): EnvironmentSignals {
+    return {
+      visibilityChange: (visible, source) => this.onVisibilityChange(visible, source),
+      activity: () => this.onUserActivity(),
+      unload: (source) => this.onUnload(source),
+      networkChange: (online) => this.handleNetworkChange(online)
+    };
+  }
 
-    // Start session
-    this.startSession('init');
+  /**
+   * Start an activity detector; busy state changes count as user activity
+   */
+  private attachActivityDetector(detector: ActivityDetector): void {
+    detector.attach(busy => {
+      this.log(`Activity detector ${detector.name} ${busy ? 'busy' : 'idle'}`);
+      if (busy) {
+        this.onUserActivity();
+        return;
+      }
+      // 释放不是用户活动：不重启会话，只让不活动计时从释放时刻重新开始
+      if (this.state === SessionState.ACTIVE) {
+        this.lastActivityTime = this.clock.now();
+        this.startInactivityTimer();
+      }
+    });
   }
 
   /**
-   * Set up page visibility change listener
+   * Get the first activity detector that is currently busy
    */
-  private setupPageVisibilityListener(): void {
-    if (typeof document === 'undefined') return;
+  private getBusyActivityDetector(): ActivityDetector | null {
+    for (const detector of this.activityDetectors) {
+      if (detector.isBusy()) return detector;
+    }
+    return null;
+  }
 
-    this.visibilityChangeListener = () => {
-      if (document.hidden) {
-        // Page became hidden - pause session
-        this.log('Page hidden - pausing session');
-        this.pauseSession().catch(error => {
+  /**
+   * Handle the app becoming visible or hidden
+   */
+  private onVisibilityChange(visible: boolean, source: string): void {
+    if (!visible) {
+      // Page became hidden - pause session
+      this.log(`Page hidden (${source}) - pausing session`);
+      if (this.state === SessionState.ACTIVE) {
+        this.pauseSession(source === 'pagehide' ? 'pagehide' : 'hidden').catch(error => {
           console.error('Error pausing session:', error);
         });
-      } else {
-        // Page became visible - resume session
-        this.log('Page visible - resuming session');
-        this.resumeSession();
       }
-    };
+      // 移动端页面隐藏后可能被直接回收，提前投递事件
+      if (this.reporter) {
+        this.reporter.flushOnUnload();
+      }
+    } else {
+      // Page became visible - resume session
+      this.log(`Page visible (${source}) - resuming session`);
+      this.resumeSession(source === 'pageshow' ? 'pageshow' : 'visible');
+    }
+  }
+
+  /**
+   * Handle online/offline events
+   */
+  private handleNetworkChange(isOnline: boolean): void {
+    this.log(`Network status changed: ${isOnline ? 'online' : 'offline'}`);
+
+    if (this.reporter && isOnline) {
+      // 网络恢复后回放离线队列
+      this.reporter.replayOfflineQueue();
+    }
+
+    if (!this.isMobile) return;
+
+    if (!isOnline && this.state === SessionState.ACTIVE) {
+      // 网络断开时暂停会话
+      this.log('Network offline - pausing session');
+      this.pauseSession('offline').catch(error => {
+        console.error('Error pausing session due to network offline:', error);
+      });
+    } else if (isOnline && this.pauseReason === 'offline' && this.isPageVisible() &&
+      (this.state === SessionState.PAUSED || this.resumeOnVisible)) {
+      // 网络恢复且页面可见：恢复因断网暂停的会话（暂停已超时则开始新会话）
+      this.log('Network online - resuming session');
+      this.resumeSession('online');
+    }
+  }
+
+  /**
+   * Handle page unload to ensure session end event is triggered
+   */
+  private onUnload(source: string): Promise<void> {
+    this.log(`Page unloading (${source}) - ensuring session end event`);
+    // 确保在页面卸载前触发 session end 事件
+    let ending: Promise<void> = Promise.resolve();
+    if (this.hasOpenSession()) {
+      // 页面卸载时保留持久化状态，以便下一个页面延续会话
+      ending = this.endSession({ reason: source || 'unload', continuable: true }).catch(error => {
+        console.error('Error ending session during page unload:', error);
+      });
+    }
+
+    // 使用 sendBeacon 发送尚未投递的事件
+    if (this.reporter) {
+      this.reporter.flushOnUnload();
+    }
+
+    // 能够等待的环境（如 Node.js 进程退出前）可以等回调完成，最多等待 shutdownTimeout
+    return ending.then(() => this.waitForCallbacks()).then(() => undefined);
+  }
+
+  /**
+   * Handle user activity
+   */
+  private onUserActivity(): void {
+    const now = this.clock.now();
+    if (this.detectSleep(now)) return;
+
+    this.lastActivityTime = now;
+    this.lastEventTime = now; // 用户活动也是事件
+
+    if (this.crossTab) {
+      this.crossTab.broadcastActivity(now);
+    }
+
+    if (this.state === SessionState.ACTIVE) {
+      // 活跃状态下只记录时间戳，由 inactivityTimer 惰性检查是否超时
+      this.lastAliveTime = now;
+      this.engagement.activity(now);
+      this.persistSession();
+      return;
+    }
 
-    document.addEventListener('visibilitychange', this.visibilityChangeListener);
+    // If session was inactive due to inactivity, restart it
+    if (this.state === SessionState.INACTIVE && this.isPageVisible()) {
+      this.log('User activity detected - restarting session');
+      this.startSession('active', 'activity');
+    }
   }
 
   /**
-   * Set up user activity listeners
+   * Start a new session
+   * @param type - Start type reported in the start event
+   * @param reason - Reason reported in the start event and to state change listeners
+   * @param rollover - Boundary the previous session was split at (rollover starts only)
    */
-  private setupActivityListeners(): void {
-    if (typeof window === 'undefined' || typeof document === 'undefined') return;
+  private startSession(type: SessionStartType, reason: SessionStartReason, rollover?: RolloverBoundary): void {
+    if (this.state === SessionState.ACTIVE) return;
+
+    this.log(`Starting session with type: ${type}`);
+    this.stopPauseExpiryTimer();
+    this.resumeOnVisible = false;
+    this.sessionStartTime = rollover ? rollover.time : this.clock.now();
+    if (!rollover) {
+      // 切分会话不是用户活动，不活动计时沿用上一会话的最近活动时间
+      this.lastActivityTime = this.sessionStartTime;
+    }
+    this.lastHeartbeatTime = this.sessionStartTime;
+    this.lastHeartbeatRoute = this.routeTracker ? this.routeTracker.getRoute() : '';
+    this.lastEventTime = this.sessionStartTime;
+    this.lastAliveTime = this.clock.now();
+    this.pauseStartTime = 0;
+    this.engagement.reset(this.sessionStartTime);
+    this.pageViews = [];
+    this.routeStartTime = this.sessionStartTime;
+
+    const peerSession = this.crossTab && !rollover ? this.crossTab.getActivePeerSession() : null;
+    if (peerSession && !this.isPastPeerRollover(peerSession)) {
+      // 其他标签页已有活跃会话：静默加入，不触发 start 回调
+      this.log(`Joining cross-tab session ${peerSession.sessionId}`);
+      this.adoptPeerSession(peerSession);
+      this.setState(SessionState.ACTIVE, 'cross_tab');
+      this.startHeartbeat();
+      this.startInactivityTimer();
+      this.startRolloverTimer();
+      this.syncCrossTabState();
+      return;
+    }
+
+    const restored = type === 'init' ? this.loadContinuableSession() : null;
+    if (restored) {
+      // 页面重新加载：延续上一页的会话，total_duration 从原会话开始计算
+      this.log(`Continuing persisted session ${restored.sessionId}`);
+      type = 'resume';
+      reason = 'resume';
+      this.sessionId = restored.sessionId;
+      this.sessionStartTime = restored.startTime;
+      this.sequence = restored.seq + 1;
+    } else {
+      // 每个新会话生成新的 session id，序号从 0 开始
+      this.sessionId = generateId();
+      this.sequence = 0;
+    }
+    this.writeSessionIdCookie();
+    this.setState(SessionState.ACTIVE, reason);
 
-    // 基础事件（所有设备）
-    const baseEvents = ['click', 'scroll', 'keydown'];
+    // Start heartbeat timer
+    this.startHeartbeat();
     
-    // 移动端触摸事件
-    const touchEvents = ['touchstart', 'touchmove', 'touchend', 'touchcancel'];
+    // Start inactivity timer
+    this.startInactivityTimer();
+
+    this.startRolloverTimer();
+
+    // Trigger callbacks
+    this.triggerSessionStart({
+      ...this.nextEventIds(),
+      type: type,
+      reason: reason,
+      timestamp: this.lastEventTime,
+      device: this.getDeviceInfo(),
+      ...(rollover ? { rollover: rollover.reason } : {})
+    });
+
+    this.persistSession(true);
+
+    this.syncCrossTabState();
+  }
+
+  /**
+   * End the current (active or paused) session
+   */
+  private async endSession(options: EndSessionOptions): Promise<void> {
+    if (this.state === SessionState.INACTIVE) return;
+
+    // 暂停中的会话在暂停开始时就已结束
+    const now = typeof options.endTime === 'number'
+      ? options.endTime
+      : this.state === SessionState.PAUSED && this.pauseStartTime > 0
+        ? this.pauseStartTime
+        : this.clock.now();
+    const intervalDuration = this.lastEventTime > 0 ? Math.max(now - this.lastEventTime, 0) : 0; // 最近一次事件到当前的间隔
+    const totalDuration = this.sessionStartTime > 0 ? now - this.sessionStartTime : 0; // 总会话时间
     
-    // 桌面端鼠标事件
-    const mouseEvents = ['mousemove', 'mousedown', 'mouseup'];
+    // 不活动结束时，最后一次活动之后的时间单独计为 trailing_idle_ms
+    const engagement = options.reason === 'inactivity'
+      ? this.engagement.snapshotForInactivity(now)
+      : { ...this.engagement.snapshot(now), trailing_idle_ms: 0 };
     
-    // 手势事件（iOS Safari）
-    const gestureEvents = ['gesturestart', 'gesturechange', 'gestureend'];
+    this.log(`Ending session (${options.reason}) - interval: ${intervalDuration}ms, total: ${totalDuration}ms`);
+    this.setState(SessionState.INACTIVE, options.stateReason || options.reason);
+
+    // Stop timers
+    this.stopHeartbeat();
+    this.stopInactivityTimer();
+    this.stopPauseExpiryTimer();
+    this.stopRolloverTimer();
+    this.syncCrossTabState();
+
+    // 状态已保存时，下次页面加载可能以相同 session_id 延续会话，此次 end 只是暂定的
+    const provisional = !!this.persistence && !!options.continuable;
+    if (this.persistence) {
+      if (provisional) {
+        this.persistSession(true);
+      } else {
+        this.persistence.clear();
+      }
+    }
+
+    if (this.crossTab) {
+      // 切分结束整个逻辑会话，由切分的标签页广播替代的新会话
+      if (!options.rollover && this.crossTab.hasOtherActiveTabs()) {
+        // 其他标签页仍然活跃：逻辑会话继续，不触发 end 回调
+        this.log('Other tabs still active - logical session continues');
+        this.lastEventTime = now;
+        return;
+      }
+      if (this.crossTab.isSessionEnded(this.sessionId)) {
+        this.log(`Cross-tab session ${this.sessionId} already ended in another tab`);
+        this.lastEventTime = now;
+        return;
+      }
+      if (!options.rollover) {
+        // 通知其他标签页丢弃该会话，保证每个逻辑会话只触发一次 end
+        this.crossTab.broadcastEnded(this.sessionId);
+      }
+    }
+
+    // Trigger callbacks and wait for completion
+    await this.triggerSessionEnd({
+      ...this.nextEventIds(),
+      reason: options.reason,
+      duration: intervalDuration,      // 最近一次事件到当前的间隔时间
+      total_duration: totalDuration,   // 会话总时间
+      timestamp: now,
+      ...engagement,
+      provisional,
+      ...this.getRouteFields(),
+      ...(this.routeTracker ? { page_views: this.getPageViews(now) } : {}),
+      ...(options.rollover ? { rollover: options.rollover } : {})
+    });
     
-    // 组合所有事件
-    const events = [
-      ...baseEvents,
-      ...touchEvents,
-      ...mouseEvents,
-      ...gestureEvents
-    ];
+    // Update last event time
+    this.lastEventTime = now;
+  }
+
+  /**
+   * Pause session (when page becomes hidden)
+   * @param reason - Reason reported to state change listeners
+   */
+  private async pauseSession(reason: SessionPauseReason): Promise<void> {
+    if (this.state !== SessionState.ACTIVE) {
+      this.log(`Cannot pause session - current state: ${this.state}`);
+      return;
+    }
+
+    const now = this.clock.now();
+    const intervalDuration = this.lastEventTime > 0 ? now - this.lastEventTime : 0; // 最近一次事件到当前的间隔
+    const totalDuration = this.sessionStartTime > 0 ? now - this.sessionStartTime : 0; // 总会话时间
     
-    const activityHandler = () => {
-      this.onUserActivity();
+    this.log(`Pausing session - interval: ${intervalDuration}ms, total: ${totalDuration}ms`);
+    this.pauseStartTime = now; // 记录暂停开始时间
+    this.pauseReason = reason;
+    this.engagement.pause(now);
+    this.setState(SessionState.PAUSED, reason);
+
+    // Stop timers only (no callbacks triggered during pause)
+    this.stopHeartbeat();
+    this.stopInactivityTimer();
+    this.stopRolloverTimer();
+    this.syncCrossTabState();
+    this.persistSession(true);
+
+    const logicalSessionContinues = !!this.crossTab && this.crossTab.hasOtherActiveTabs();
+    if (logicalSessionContinues) {
+      // 其他标签页仍然活跃：不触发 pause 回调，但仍按恢复策略让本页的暂停过期
+      this.log('Other tabs still active - logical session continues');
+      if (!this.config.legacyPauseEvents) {
+        this.startPauseExpiryTimer();
+      }
+      this.lastEventTime = now;
+      return;
+    }
+
+    const data = {
+      ...this.nextEventIds(),
+      reason: reason,
+      duration: intervalDuration,      // 最近一次事件到当前的间隔时间
+      total_duration: totalDuration,   // 会话总时间
+      timestamp: now
     };
 
-    events.forEach(eventName => {
-      const listener = { 
-        element: document, 
-        event: eventName, 
-        listener: activityHandler 
-      };
-      this.activityListeners.push(listener);
-      
-      // 使用 passive 监听器提高移动端性能
-      document.addEventListener(eventName, listener.listener, { 
-        passive: true,
-        capture: false 
+    this.triggerSessionPause(data);
+
+    if (this.config.legacyPauseEvents) {
+      // 兼容模式：暂停时同时触发 end 事件
+      await this.triggerSessionEnd({
+        ...data,
+        ...this.nextEventIds(),
+        ...this.engagement.snapshot(now),
+        trailing_idle_ms: 0,
+        provisional: true // 暂停的会话仍可能恢复
       });
-    });
+    } else {
+      this.startPauseExpiryTimer();
+    }
     
-    this.log(`Activity listeners registered: ${events.length} events`);
+    // Update last event time
+    this.lastEventTime = now;
   }
 
   /**
-   * Set up mobile-specific lifecycle listeners
+   * End the paused session once the pause exceeds the resume threshold
+   * (the end time is the start of the pause)
    */
-  private setupMobileLifecycleListeners(): void {
-    if (typeof window === 'undefined') return;
+  private startPauseExpiryTimer(): void {
+    this.stopPauseExpiryTimer();
+    const expiryDelay = getPauseExpiryDelay(this.getResumePolicy(), this.config.maxPauseDuration);
+    if (expiryDelay === null) return;
 
-    // 设备方向变化（移动端）
-    const orientationHandler = () => {
-      this.log('Device orientation changed');
-      this.onUserActivity(); // 方向变化视为用户活动
-    };
+    this.schedulePauseExpiry(expiryDelay);
+  }
 
-    // 网络状态变化
-    const networkHandler = () => {
-      const isOnline = typeof navigator !== 'undefined' ? navigator.onLine : true;
-      this.log(`Network status changed: ${isOnline ? 'online' : 'offline'}`);
-      
-      if (!isOnline && this.state === SessionState.ACTIVE) {
-        // 网络断开时暂停会话
-        this.log('Network offline - pausing session');
-        this.pauseSession().catch(error => {
-          console.error('Error pausing session due to network offline:', error);
+  /**
+   * Schedule the pause expiry, in steps when the delay exceeds what setTimeout accepts
+   */
+  private schedulePauseExpiry(delay: number): void {
+    const step = Math.min(delay, MAX_TIMER_DELAY);
+    this.pauseExpiryTimer = this.scheduler.setTimeout(() => {
+      this.pauseExpiryTimer = null;
+      if (delay > step) {
+        this.schedulePauseExpiry(delay - step);
+        return;
+      }
+      this.expirePausedSession();
+    }, step);
+  }
+
+  /**
+   * End a paused session whose pause exceeded the resume threshold
+   */
+  private expirePausedSession(): void {
+    if (this.state !== SessionState.PAUSED) return;
+
+    this.log('Pause exceeded resume threshold - ending session');
+    this.endSession({ reason: this.pauseReason, stateReason: 'pause_timeout', continuable: true }).catch(error => {
+      console.error('Error ending paused session:', error);
+    });
+    // 页面重新可见时开始新会话
+    this.resumeOnVisible = true;
+  }
+
+  /**
+   * Resume session (when page becomes visible again)
+   * @param reason - Reason reported to state change listeners
+   */
+  private resumeSession(reason: SessionResumeReason): void {
+    if (this.state === SessionState.INACTIVE && this.resumeOnVisible) {
+      this.log('Session ended during pause, starting new session');
+      this.startSession('active', reason);
+      return;
+    }
+
+    if (this.state !== SessionState.PAUSED) {
+      this.log(`Cannot resume session - current state: ${this.state}`);
+      return;
+    }
+
+    const now = this.clock.now();
+    const pauseDuration = this.pauseStartTime > 0 ? now - this.pauseStartTime : 0;
+    
+    this.log(`Attempting to resume session after ${pauseDuration}ms pause (${this.deviceInfo.device_class})`);
+    
+    const boundary = this.getPassedRolloverBoundary(now);
+    
+    if (!this.shouldResume(pauseDuration)) {
+      this.log('Resume policy declined the resume - starting new session');
+      if (!this.config.legacyPauseEvents) {
+        // 超时定时器在后台可能被节流，此处补发 end 事件
+        this.endSession({ reason: this.pauseReason, stateReason: 'pause_timeout', continuable: true }).catch(error => {
+          console.error('Error ending paused session:', error);
         });
-      } else if (isOnline && this.state === SessionState.PAUSED) {
-        // 网络恢复时可能需要恢复会话
-        this.log('Network online - resuming session may be needed');
-        this.onUserActivity(); // 触发活动检测
       }
+      this.startSession('active', reason);
+    } else if (boundary) {
+      // 暂停期间越过了切分边界：结束原会话（结束时间为暂停开始时间），开始新会话
+      this.log(`Session crossed its ${boundary.reason} boundary while paused - starting new session`);
+      const previousSessionId = this.sessionId;
+      this.endSession({ reason: boundary.reason, rollover: boundary.reason }).catch(error => {
+        console.error('Error ending session at rollover:', error);
+      });
+      this.startSession('rollover', boundary.reason, { time: now, reason: boundary.reason });
+      if (this.crossTab) {
+        this.crossTab.broadcastRollover(previousSessionId);
+      }
+    } else {
+      // 短时间暂停：恢复原会话，不触发 start 回调
+      this.log('Resume policy allowed the resume - resuming session');
+      this.stopPauseExpiryTimer();
+      this.engagement.resume(now);
+      this.setState(SessionState.ACTIVE, reason);
+
+      const peerSession = this.crossTab ? this.crossTab.getActivePeerSession() : null;
+      if (peerSession && peerSession.sessionId !== this.sessionId && !this.isPastPeerRollover(peerSession)) {
+        // 暂停期间其他标签页已开始新的逻辑会话
+        this.adoptPeerSession(peerSession);
+      }
+
+      this.lastHeartbeatTime = now;
+      this.lastAliveTime = now;
+      this.lastActivityTime = now; // 恢复视为一次活动，不活动计时从此刻开始
+      this.startHeartbeat();
+      this.startInactivityTimer();
+      this.startRolloverTimer();
+
+      // 不触发 triggerSessionStart，因为这不是新会话，只是恢复
+      this.triggerSessionResume({
+        ...this.nextEventIds(),
+        reason: reason,
+        pause_duration: pauseDuration,
+        total_duration: this.sessionStartTime > 0 ? now - this.sessionStartTime : 0,
+        timestamp: now
+      });
+
+      this.pauseStartTime = 0;
+      this.lastEventTime = now;
+      this.syncCrossTabState();
+      this.persistSession(true);
+    }
+  }
+
+  /**
+   * Get the configured resume policy (default: grace period of heartbeatInterval)
+   */
+  private getResumePolicy(): ResumePolicy {
+    const policy = this.config.resumePolicy;
+    return policy === null ? this.config.heartbeatInterval : policy;
+  }
+
+  /**
+   * Apply the resume policy to a pause
+   */
+  private shouldResume(pauseDuration: number): boolean {
+    try {
+      return shouldResumeSession(
+        this.getResumePolicy(),
+        pauseDuration,
+        this.deviceInfo.device_class,
+        this.config.maxPauseDuration
+      );
+    } catch (error) {
+      console.error('Error in resume policy:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Check whether there is a session whose end event has not been fired yet
+   */
+  private hasOpenSession(): boolean {
+    return this.state === SessionState.ACTIVE ||
+      (this.state === SessionState.PAUSED && !this.config.legacyPauseEvents);
+  }
+
+  /**
+   * Stop the timer that ends a paused session
+   */
+  private stopPauseExpiryTimer(): void {
+    if (this.pauseExpiryTimer) {
+      this.scheduler.clearTimeout(this.pauseExpiryTimer);
+      this.pauseExpiryTimer = null;
+    }
+  }
+
+  /**
+   * Update the session state and notify state change listeners
+   */
+  private setState(next: SessionState, reason: string): void {
+    const prev = this.state;
+    if (prev === next) return;
+
+    this.state = next;
+    this.triggerStateChange(prev, next, reason);
+  }
+
+  /**
+   * Get the identifiers for the next event of the current session
+   */
+  private nextEventIds(): SessionEventIds {
+    const ids: SessionEventIds = {
+      session_id: this.sessionId,
+      seq: this.sequence++,
+      instance_id: PAGE_INSTANCE_ID
     };
+    if (this.userId) {
+      ids.user_id = this.userId;
+    }
+    if (this.hasContext) {
+      // 复制一份，之后的 setContext 不影响已发出的事件
+      ids.context = { ...this.context };
+    }
+    return ids;
+  }
+
+  /**
+   * Write the current session id to the configured first-party cookie
+   */
+  private writeSessionIdCookie(): void {
+    const cookieConfig = this.config.sessionIdCookie;
+    if (!cookieConfig) return;
+
+    const options: SessionIdCookieOptions = cookieConfig === true ? {} : cookieConfig;
+    const { name = 'sl_session_id', ...cookieOptions } = options;
+    setCookie(name, this.sessionId, cookieOptions);
+  }
+
+  /**
+   * Start heartbeat timer
+   */
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.scheduleHeartbeat(this.clock.now());
+  }
+
+  /**
+   * Schedule the heartbeat following `previous` according to the heartbeat schedule
+   * @param previous - Due time of the previous heartbeat, or when heartbeats (re)started
+   */
+  private scheduleHeartbeat(previous: number): void {
+    const planned = planHeartbeat(this.getHeartbeatSchedule(), this.sessionStartTime, previous);
+    this.currentHeartbeatInterval = planned.interval;
+    this.heartbeatDueTime = planned.time;
 
-    // 页面显示/隐藏（移动端更可靠）
-    const pageShowHandler = () => {
-      this.log('Page shown (pageshow event)');
-      if (this.state === SessionState.PAUSED) {
-        this.resumeSession();
+    this.heartbeatTimer = this.scheduler.setTimeout(() => {
+      this.heartbeatTimer = null;
+      this.onHeartbeat(planned.step);
+      // 心跳可能结束会话（休眠、切分）；新会话会重新开始心跳
+      if (this.state === SessionState.ACTIVE && this.heartbeatTimer === null) {
+        // 按计划时间而非实际触发时间推进，避免累积误差；落后超过一个间隔时从当前时间重新计算
+        const now = this.clock.now();
+        this.scheduleHeartbeat(now - planned.time >= planned.interval ? now : planned.time);
       }
-    };
+    }, Math.max(planned.time - this.clock.now(), 0));
+  }
+
+  /**
+   * Emit a heartbeat
+   * @param step - Index of the heartbeat schedule step that produced it
+   */
+  private onHeartbeat(step: number): void {
+    if (this.state !== SessionState.ACTIVE || this.sessionStartTime <= 0) return;
+
+    const now = this.clock.now();
+    if (this.detectSleep(now)) return;
+
+    if (this.getPassedRolloverBoundary(now)) {
+      // 定时器被节流时心跳可能晚于切分边界：先切分，心跳间隔不跨越边界
+      this.rolloverSession();
+      return;
+    }
+    this.lastAliveTime = now;
 
-    const pageHideHandler = () => {
-      this.log('Page hidden (pagehide event)');
-      if (this.state === SessionState.ACTIVE) {
-        this.pauseSession().catch(error => {
-          console.error('Error pausing session during pagehide:', error);
-        });
-      }
-    };
+    if (this.crossTab && !this.crossTab.isLeader()) {
+      // 跨标签页模式下只有 leader 标签页发出心跳
+      this.lastHeartbeatTime = now;
+      return;
+    }
 
-    // 应用焦点变化
-    const focusHandler = () => {
-      this.log('Window gained focus');
-      this.onUserActivity();
-    };
+    if (this.getBusyActivityDetector()) {
+      // 检测器忙碌期间计为活跃时间
+      this.lastActivityTime = now;
+      this.engagement.activity(now);
+    }
 
-    const blurHandler = () => {
-      this.log('Window lost focus');
-      // 失去焦点时不立即暂停，等待visibilitychange或pagehide
-    };
+    const route = this.routeTracker ? this.routeTracker.getRoute() : '';
+    if (this.getHeartbeatSchedule().skipUnchanged &&
+        this.lastActivityTime <= this.lastHeartbeatTime && route === this.lastHeartbeatRoute) {
+      // 自上次心跳以来没有活动和路由变化：跳过，下次心跳的 duration 覆盖跳过的时间
+      this.log('Heartbeat skipped - nothing changed');
+      return;
+    }
 
-    // 注册事件监听器
-    const mobileEvents = [
-      { element: window, event: 'orientationchange', listener: orientationHandler },
-      { element: window, event: 'online', listener: networkHandler },
-      { element: window, event: 'offline', listener: networkHandler },
-      { element: window, event: 'pageshow', listener: pageShowHandler },
-      { element: window, event: 'pagehide', listener: pageHideHandler },
-      { element: window, event: 'focus', listener: focusHandler },
-      { element: window, event: 'blur', listener: blurHandler }
-    ];
-
-    mobileEvents.forEach(({ element, event, listener }) => {
-      this.mobileLifecycleListeners.push({ element, event, listener });
-      element.addEventListener(event, listener, { passive: true });
+    const heartbeatDuration = now - this.lastHeartbeatTime; // 单次心跳间隔时间
+    const totalDuration = now - this.sessionStartTime; // 从session开始的总时间
+    
+    this.log(`Heartbeat - interval: ${heartbeatDuration}ms, total session: ${totalDuration}ms, step: ${step}`);
+    
+    this.engagement.heartbeat();
+    this.triggerSessionLife({
+      ...this.nextEventIds(),
+      duration: heartbeatDuration,
+      total_duration: totalDuration,
+      timestamp: now,
+      step: step,
+      ...this.engagement.snapshot(now),
+      ...this.getRouteFields()
     });
-
-    this.log(`Mobile lifecycle listeners registered: ${mobileEvents.length} events`);
+    
+    // 更新最后心跳时间和最后事件时间
+    this.lastHeartbeatTime = now;
+    this.lastHeartbeatRoute = route;
+    this.lastEventTime = now;
+    this.syncCrossTabState();
+    this.persistSession(true);
   }
 
   /**
-   * Set up page unload listener to ensure session end event is triggered
+   * Stop heartbeat timer
    */
-  private setupBeforeUnloadListener(): void {
-    if (typeof window === 'undefined') return;
-
-    this.beforeUnloadListener = () => {
-      this.log('Page unloading - ensuring session end event');
-      // 确保在页面卸载前触发 session end 事件
-      if (this.state === SessionState.ACTIVE) {
-        this.endSession().catch(error => {
-          console.error('Error ending session during page unload:', error);
-        });
-      }
-    };
-
-    window.addEventListener('beforeunload', this.beforeUnloadListener);
-    window.addEventListener('pagehide', this.beforeUnloadListener);
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      this.scheduler.clearTimeout(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.heartbeatDueTime = 0;
   }
 
   /**
-   * Handle user activity
+   * Get the heartbeat schedule (default: a single step of heartbeatInterval)
    */
-  private onUserActivity(): void {
-    const now = Date.now();
-    this.lastActivityTime = now;
-    this.lastEventTime = now; // 用户活动也是事件
+  private getHeartbeatSchedule(): HeartbeatScheduleConfig {
+    const schedule = this.config.heartbeatSchedule;
+    if (schedule && schedule.steps.length > 0) return schedule;
+    return { steps: [{ interval: this.config.heartbeatInterval }] };
+  }
 
-    // If session was inactive due to inactivity, restart it
-    if (this.state === SessionState.INACTIVE && this.isPageVisible()) {
-      this.log('User activity detected - restarting session');
-      this.startSession('active');
-    } else if (this.state === SessionState.ACTIVE) {
-      // Reset inactivity timer
-      this.resetInactivityTimer();
-    }
+  /**
+   * Get the heartbeat timer lateness that counts as system sleep (0: detection disabled)
+   */
+  private getSleepThreshold(): number {
+    const threshold = this.config.sleepThreshold;
+    return threshold === null ? this.currentHeartbeatInterval * 3 : threshold;
   }
 
   /**
-   * Start a new session
+   * End the active session retroactively when the heartbeat timer fired (or is
+   * still pending) later than the sleep threshold after it was due, and start a new one.
+   * Lateness is measured on the monotonic clock; where monotonic time stops during
+   * a suspend, wall time running ahead of it by more than the threshold counts as
+   * a sleep and re-anchors the clock.
+   * @returns Whether a sleep was detected
    */
-  private startSession(type: SessionStartType): void {
-    if (this.state === SessionState.ACTIVE) return;
+  private detectSleep(now: number): boolean {
+    const threshold = this.getSleepThreshold();
+    if (threshold <= 0) return false;
 
-    this.log(`Starting session with type: ${type}`);
-    this.state = SessionState.ACTIVE;
-    this.sessionStartTime = Date.now();
-    this.lastActivityTime = this.sessionStartTime;
-    this.lastHeartbeatTime = this.sessionStartTime;
-    this.lastEventTime = this.sessionStartTime;
+    // 部分平台休眠期间 performance.now() 也停止，定时器看起来没有延迟
+    const missed = this.clock instanceof MonotonicClock ? this.clock.resync(threshold) : 0;
+    if (this.state !== SessionState.ACTIVE || this.heartbeatDueTime <= 0) return false;
 
-    // Start heartbeat timer
-    this.startHeartbeat();
-    
-    // Start inactivity timer
-    this.resetInactivityTimer();
+    const lateness = Math.max(now - this.heartbeatDueTime, missed);
+    if (lateness <= threshold) return false;
 
-    // Trigger callbacks
-    this.triggerSessionStart({
-      type: type,
-      timestamp: this.sessionStartTime
+    this.log(`Heartbeat timer ${lateness}ms late - system slept, ending session at last alive time`);
+    // 会话在最后一次确认存活时结束，休眠时间不计入会话
+    this.endSession({ reason: 'system_sleep', endTime: this.lastAliveTime }).catch(error => {
+      console.error('Error ending session after system sleep:', error);
     });
+    if (this.isPageVisible()) {
+      this.startSession('active', 'system_wake');
+    } else {
+      this.resumeOnVisible = true;
+    }
+    return true;
   }
 
   /**
-   * End the current session
+   * Schedule the split of the current session at its rollover boundary
    */
-  private async endSession(): Promise<void> {
-    if (this.state === SessionState.INACTIVE) return;
-
-    const now = Date.now();
-    const intervalDuration = this.lastEventTime > 0 ? now - this.lastEventTime : 0; // 最近一次事件到当前的间隔
-    const totalDuration = this.sessionStartTime > 0 ? now - this.sessionStartTime : 0; // 总会话时间
-    
-    this.log(`Ending session - interval: ${intervalDuration}ms, total: ${totalDuration}ms`);
-    this.state = SessionState.INACTIVE;
+  private startRolloverTimer(): void {
+    this.stopRolloverTimer();
 
-    // Stop timers
-    this.stopHeartbeat();
-    this.stopInactivityTimer();
+    const boundary = getRolloverBoundary(this.sessionStartTime, this.config);
+    if (!boundary) return;
 
-    // Trigger callbacks and wait for completion
-    await this.triggerSessionEnd({
-      duration: intervalDuration,      // 最近一次事件到当前的间隔时间
-      total_duration: totalDuration,   // 会话总时间
-      timestamp: now
-    });
-    
-    // Update last event time
-    this.lastEventTime = now;
+    this.rolloverTimer = this.scheduler.setTimeout(() => {
+      this.rolloverTimer = null;
+      this.rolloverSession();
+    }, Math.max(boundary.time - this.clock.now(), 0));
   }
 
   /**
-   * Pause session (when page becomes hidden)
+   * Stop rollover timer
    */
-  private async pauseSession(): Promise<void> {
-    if (this.state !== SessionState.ACTIVE) {
-      this.log(`Cannot pause session - current state: ${this.state}`);
-      return;
+  private stopRolloverTimer(): void {
+    if (this.rolloverTimer) {
+      this.scheduler.clearTimeout(this.rolloverTimer);
+      this.rolloverTimer = null;
     }
+  }
 
-    const now = Date.now();
-    const intervalDuration = this.lastEventTime > 0 ? now - this.lastEventTime : 0; // 最近一次事件到当前的间隔
-    const totalDuration = this.sessionStartTime > 0 ? now - this.sessionStartTime : 0; // 总会话时间
-    
-    this.log(`Pausing session - interval: ${intervalDuration}ms, total: ${totalDuration}ms`);
-    this.state = SessionState.PAUSED;
-    this.pauseStartTime = now; // 记录暂停开始时间
-
-    // Stop timers only (no callbacks triggered during pause)
-    this.stopHeartbeat();
-    this.stopInactivityTimer();
-
-    // Trigger end event and wait for completion
-    await this.triggerSessionEnd({
-      duration: intervalDuration,      // 最近一次事件到当前的间隔时间
-      total_duration: totalDuration,   // 会话总时间
-      timestamp: now
-    });
-    
-    // Update last event time
-    this.lastEventTime = now;
+  /**
+   * Rollover boundary of the current session if `now` is past it
+   */
+  private getPassedRolloverBoundary(now: number): RolloverBoundary | null {
+    const boundary = getRolloverBoundary(this.sessionStartTime, this.config);
+    return boundary && now >= boundary.time ? boundary : null;
   }
 
   /**
-   * Resume session (when page becomes visible again)
+   * End the active session at its rollover boundary and start the next one there
    */
-  private resumeSession(): void {
-    if (this.state !== SessionState.PAUSED) {
-      this.log(`Cannot resume session - current state: ${this.state}`);
+  private rolloverSession(): void {
+    if (this.state !== SessionState.ACTIVE) return;
+
+    const now = this.clock.now();
+    if (this.detectSleep(now)) return;
+
+    const boundary = this.getPassedRolloverBoundary(now);
+    if (!boundary) {
+      this.startRolloverTimer();
       return;
     }
 
-    const now = Date.now();
-    const pauseDuration = this.pauseStartTime > 0 ? now - this.pauseStartTime : 0;
-    
-    this.log(`Attempting to resume session after ${pauseDuration}ms pause (${this.isMobile ? 'Mobile' : 'Desktop'})`);
-    
-    // 移动端使用更保守的恢复策略
-    // const resumeThreshold = this.isMobile 
-    //   ? Math.max(this.config.heartbeatInterval * 2, 60000) // 移动端：至少1分钟或2倍心跳间隔
-    //   : this.config.heartbeatInterval; // 桌面端：心跳间隔
-    const resumeThreshold = this.config.heartbeatInterval;
-    
-    if (pauseDuration > resumeThreshold) {
-      this.log(`Pause duration > ${resumeThreshold}ms (threshold), starting new session`);
-      this.startSession('active');
-    } else {
-      // 短时间暂停：静默恢复，不触发任何回调
-      this.log(`Pause duration <= ${resumeThreshold}ms (threshold), silent resume without callbacks`);
-      
-      this.state = SessionState.ACTIVE;
+    if (this.crossTab && !this.crossTab.isLeader()) {
+      // 跨标签页模式下只由 leader 切分会话，其他标签页等待其广播的新会话；leader 消失后由新的 leader 切分
+      this.log(`Session reached its ${boundary.reason} boundary - waiting for the leader tab to split it`);
+      this.stopRolloverTimer();
+      this.rolloverTimer = this.scheduler.setTimeout(() => {
+        this.rolloverTimer = null;
+        this.rolloverSession();
+      }, this.crossTab.presenceInterval);
+      return;
+    }
 
-      this.lastHeartbeatTime = now;
-      this.startHeartbeat();
-      this.resetInactivityTimer();
-      
-      // 不触发 triggerSessionStart，因为这不是新会话，只是恢复
-      this.lastEventTime = now;
+    this.log(`Session reached its ${boundary.reason} boundary - starting new session`);
+    const previousSessionId = this.sessionId;
+    this.endSession({ reason: boundary.reason, endTime: boundary.time, rollover: boundary.reason }).catch(error => {
+      console.error('Error ending session at rollover:', error);
+    });
+
+    // 长时间未触发（如设备休眠）时下一个边界也已过去：新会话从当前时间开始
+    const next = getRolloverBoundary(boundary.time, this.config);
+    const start = next && next.time <= now ? { time: now, reason: boundary.reason } : boundary;
+    this.startSession('rollover', boundary.reason, start);
+    if (this.crossTab) {
+      this.crossTab.broadcastRollover(previousSessionId);
     }
   }
 
   /**
-   * Start heartbeat timer
+   * Start the inactivity timer. It fires when the inactivity timeout would expire
+   * and compares against lastActivityTime, so activity never touches the timer.
    */
-  private startHeartbeat(): void {
-    this.stopHeartbeat();
-    
-    this.heartbeatTimer = setInterval(() => {
-      if (this.state === SessionState.ACTIVE && this.sessionStartTime > 0) {
-        const now = Date.now();
-        const heartbeatDuration = now - this.lastHeartbeatTime; // 单次心跳间隔时间
-        const totalDuration = now - this.sessionStartTime; // 从session开始的总时间
-        
-        this.log(`Heartbeat - interval: ${heartbeatDuration}ms, total session: ${totalDuration}ms`);
-        
-        this.triggerSessionLife({
-          duration: heartbeatDuration,
-          total_duration: totalDuration,
-          timestamp: now
-        });
-        
-        // 更新最后心跳时间和最后事件时间
-        this.lastHeartbeatTime = now;
-        this.lastEventTime = now;
-      }
-    }, this.config.heartbeatInterval);
+  private startInactivityTimer(): void {
+    this.stopInactivityTimer();
+    this.scheduleInactivityCheck(this.lastActivityTime + this.config.inactivityTimeout - this.clock.now());
   }
 
   /**
-   * Stop heartbeat timer
+   * Schedule the next inactivity check
    */
-  private stopHeartbeat(): void {
-    if (this.heartbeatTimer) {
-      clearInterval(this.heartbeatTimer);
-      this.heartbeatTimer = null;
-    }
+  private scheduleInactivityCheck(delay: number): void {
+    this.inactivityTimer = this.scheduler.setTimeout(() => {
+      this.inactivityTimer = null;
+      this.checkInactivity();
+    }, Math.max(delay, 0));
   }
 
   /**
-   * Reset inactivity timer
+   * End the session if there was no activity for the inactivity timeout,
+   * otherwise check again when the timeout would expire
    */
-  private resetInactivityTimer(): void {
-    this.stopInactivityTimer();
-    
-    this.inactivityTimer = setTimeout(() => {
-      this.log('User inactivity detected - ending session');
-      this.endSession().catch(error => {
-        console.error('Error ending session due to inactivity:', error);
-      });
-    }, this.config.inactivityTimeout);
+  private checkInactivity(): void {
+    if (this.state !== SessionState.ACTIVE) return;
+
+    const now = this.clock.now();
+    // 休眠唤醒后不活动定时器可能先于心跳触发
+    if (this.detectSleep(now)) return;
+
+    const idleFor = now - this.lastActivityTime;
+    if (idleFor < this.config.inactivityTimeout) {
+      // 期间有过活动：按最近一次活动时间重新计时
+      this.scheduleInactivityCheck(this.config.inactivityTimeout - idleFor);
+      return;
+    }
+
+    const busyDetector = this.getBusyActivityDetector();
+    if (busyDetector) {
+      // 检测器仍在忙（如视频播放中），视为用户活动
+      this.log(`No input but ${busyDetector.name} is busy - keeping session alive`);
+      this.onUserActivity();
+      this.scheduleInactivityCheck(this.config.inactivityTimeout);
+      return;
+    }
+
+    this.log('User inactivity detected - ending session');
+    this.endSession({ reason: 'inactivity' }).catch(error => {
+      console.error('Error ending session due to inactivity:', error);
+    });
   }
 
   /**
@@ -625,7 +2520,7 @@ export class SessionLifecycle {
    */
   private stopInactivityTimer(): void {
     if (this.inactivityTimer) {
-      clearTimeout(this.inactivityTimer);
+      this.scheduler.clearTimeout(this.inactivityTimer);
       this.inactivityTimer = null;
     }
   }
@@ -634,61 +2529,115 @@ export class SessionLifecycle {
    * Check if page is currently visible
    */
   private isPageVisible(): boolean {
-    return typeof document === 'undefined' ? true : !document.hidden;
+    return this.environment ? this.environment.isVisible() : true;
   }
 
   /**
-   * Trigger session start callbacks
+   * Run an event payload through the plugins
+   * @returns The transformed payload, or null if a plugin vetoed the event
    */
-  private triggerSessionStart(data: SessionStartData): void {
-    this.startCallbacks.forEach(callback => {
+  private applyPlugins<K extends PluginEventName>(event: K, data: PluginEventPayloads[K]): PluginEventPayloads[K] | null {
+    let payload = data;
+    for (const plugin of this.plugins) {
       try {
-        callback(data);
+        const specific = this.runPluginHook(plugin, event, payload) as PluginHookResult<PluginEventPayloads[K]>;
+        if (specific === false) {
+          this.log(`Plugin ${plugin.name} dropped ${event}`);
+          return null;
+        }
+        if (specific) {
+          payload = specific;
+        }
+
+        const generic = plugin.onEvent ? plugin.onEvent(event, payload) : undefined;
+        if (generic === false) {
+          this.log(`Plugin ${plugin.name} dropped ${event}`);
+          return null;
+        }
+        if (generic) {
+          payload = generic;
+        }
       } catch (error) {
-        console.error('Error in session start callback:', error);
+        // 插件出错时忽略该插件，继续使用当前 payload
+        this.handlePluginError(error, plugin, event, payload);
       }
-    });
+    }
+    return payload;
+  }
+
+  /**
+   * Call the event-specific hook of a plugin
+   */
+  private runPluginHook(plugin: SessionPlugin, event: PluginEventName, data: unknown): unknown {
+    switch (event) {
+      case 'session_start':
+        return plugin.onSessionStart ? plugin.onSessionStart(data as SessionStartData) : undefined;
+      case 'session_life':
+        return plugin.onSessionLife ? plugin.onSessionLife(data as SessionLifeData) : undefined;
+      case 'session_end':
+        return plugin.onSessionEnd ? plugin.onSessionEnd(data as SessionEndData) : undefined;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Trigger session start callbacks
+   */
+  private triggerSessionStart(data: SessionStartData): void {
+    const payload = this.applyPlugins('session_start', data);
+    if (!payload) return;
+    this.report({ event: 'session_start', data: payload });
+    this.emitter.emit('session_start', payload);
   }
 
   /**
    * Trigger session end callbacks and return a promise that resolves when all callbacks are processed
    */
   private async triggerSessionEnd(data: SessionEndData): Promise<void> {
-    const promises = this.endCallbacks.map(callback => {
-      return new Promise<void>((resolve) => {
-        try {
-          // Execute callback in next tick to ensure it runs after current call stack
-          setTimeout(() => {
-            try {
-              callback(data);
-            } catch (error) {
-              console.error('Error in session end callback:', error);
-            } finally {
-              resolve();
-            }
-          }, 0);
-        } catch (error) {
-          console.error('Error scheduling session end callback:', error);
-          resolve();
-        }
-      });
-    });
+    const payload = this.applyPlugins('session_end', data);
+    if (!payload) return;
+    this.report({ event: 'session_end', data: payload });
+
+    // 与其他事件一样同步分发，保证旧会话的 end 先于替代会话的 start
+    await this.emitter.emit('session_end', payload);
+  }
+
+  /**
+   * Trigger session pause callbacks
+   */
+  private triggerSessionPause(data: SessionPauseData): void {
+    const payload = this.applyPlugins('session_pause', data);
+    if (!payload) return;
+    this.report({ event: 'session_pause', data: payload });
+    this.emitter.emit('session_pause', payload);
+  }
+
+  /**
+   * Trigger session resume callbacks
+   */
+  private triggerSessionResume(data: SessionResumeData): void {
+    const payload = this.applyPlugins('session_resume', data);
+    if (!payload) return;
+    this.report({ event: 'session_resume', data: payload });
+    this.emitter.emit('session_resume', payload);
+  }
 
-    // Wait for all callbacks to complete
-    await Promise.all(promises);
+  /**
+   * Trigger state change callbacks
+   */
+  private triggerStateChange(prev: SessionState, next: SessionState, reason: string): void {
+    this.emitter.emit('state_change', prev, next, reason);
   }
 
   /**
    * Trigger session life callbacks
    */
   private triggerSessionLife(data: SessionLifeData): void {
-    this.lifeCallbacks.forEach(callback => {
-      try {
-        callback(data);
-      } catch (error) {
-        console.error('Error in session life callback:', error);
-      }
-    });
+    const payload = this.applyPlugins('session_life', data);
+    if (!payload) return;
+    this.report({ event: 'session_life', data: payload });
+    this.emitter.emit('session_life', payload);
   }
 
   /**
@@ -696,7 +2645,8 @@ export class SessionLifecycle {
    */
   private log(message: string): void {
     if (this.config.debug) {
-      console.log(`[SessionLifecycle] ${message}`);
+      const name = this.config.name === DEFAULT_INSTANCE_NAME ? '' : `:${this.config.name}`;
+      console.log(`[SessionLifecycle${name}] ${message}`);
     }
   }
 
@@ -707,46 +2657,68 @@ export class SessionLifecycle {
     this.log('Destroying session lifecycle instance');
     
     // End current session and wait for callbacks to complete
-    if (this.state === SessionState.ACTIVE) {
-      await this.endSession();
+    if (this.hasOpenSession()) {
+      // 销毁实例（如页面卸载时）不清除持久化状态
+      await this.endSession({ reason: 'destroy', continuable: true });
+    }
+    if (!(await this.waitForCallbacks())) {
+      this.log(`Callbacks still pending after ${this.config.shutdownTimeout}ms - destroying anyway`);
     }
 
     // Stop timers
     this.stopHeartbeat();
     this.stopInactivityTimer();
+    this.stopPauseExpiryTimer();
+    this.stopRolloverTimer();
     
     // Clear initialization timer
     if (this.initTimer) {
-      clearTimeout(this.initTimer);
+      this.scheduler.clearTimeout(this.initTimer);
       this.initTimer = null;
     }
 
-    // Remove event listeners
-    if (this.visibilityChangeListener && typeof document !== 'undefined') {
-      document.removeEventListener('visibilitychange', this.visibilityChangeListener);
+    if (this.crossTab) {
+      this.crossTab.stop();
+      this.crossTab = null;
     }
 
-    if (this.beforeUnloadListener && typeof window !== 'undefined') {
-      window.removeEventListener('beforeunload', this.beforeUnloadListener);
-      window.removeEventListener('pagehide', this.beforeUnloadListener);
+    if (this.iframeBridge) {
+      this.iframeBridge.stop();
+      this.iframeBridge = null;
     }
 
-    this.activityListeners.forEach(({ element, event, listener }) => {
-      element.removeEventListener(event, listener);
-    });
+    if (this.idleMonitor) {
+      this.idleMonitor.stop();
+      this.idleMonitor = null;
+    }
+    if (this.routeTracker) {
+      this.routeTracker.stop();
+      this.routeTracker = null;
+    }
+    if (this.systemActivity) {
+      const index = this.activityDetectors.indexOf(this.systemActivity);
+      if (index !== -1) {
+        this.activityDetectors.splice(index, 1);
+      }
+      this.systemActivity.detach();
+      this.systemActivity = null;
+    }
+    this.screenLocked = false;
 
-    this.mobileLifecycleListeners.forEach(({ element, event, listener }) => {
-      element.removeEventListener(event, listener);
-    });
+    // Remove event listeners
+    if (this.environment && this.isInitialized) {
+      this.environment.detach();
+      this.activityDetectors.forEach(detector => detector.detach());
+    }
+
+    if (this.reporter) {
+      this.reporter.destroy();
+      this.reporter = null;
+    }
 
     // Clear callbacks and listeners
-    this.startCallbacks = [];
-    this.endCallbacks = [];
-    this.lifeCallbacks = [];
-    this.activityListeners = [];
-    this.mobileLifecycleListeners = [];
-    this.visibilityChangeListener = null;
-    this.beforeUnloadListener = null;
+    this.plugins.forEach(plugin => this.teardownPlugin(plugin));
+    this.emitter.removeAllListeners();
     this.isInitialized = false;
   }
 }
@@ -754,116 +2726,149 @@ export class SessionLifecycle {
 // Global instance management
 declare global {
   interface Window {
-    __sessionLifecycleInstance?: SessionLifecycle;
+    __sessionLifecycleRegistry?: { [name: string]: SessionLifecycle };
   }
 }
 
 /**
- * Factory function to create a new SessionLifecycle instance and return its methods
- * Ensures only one instance exists per page - automatically destroys previous instances
- * @param config - Optional configuration object
- * @returns Promise that resolves to object containing session lifecycle methods and instance
+ * Registry name used when no name is configured
  */
-export async function createSessionLifecycle(config?: SessionLifecycleConfig): Promise<SessionLifecycleMethods & { destroy: () => Promise<void> }> {
-  // Check if we're in a browser environment
-  if (typeof window !== 'undefined') {
-    // If there's already an existing instance, destroy it first and wait for completion
-    if (window.__sessionLifecycleInstance) {
-      console.log('[SessionLifecycle] Destroying previous instance to ensure singleton behavior');
-      await window.__sessionLifecycleInstance.destroy();
-      window.__sessionLifecycleInstance = undefined;
-    }
+export const DEFAULT_INSTANCE_NAME = 'default';
+
+// 非浏览器环境下使用模块内注册表
+const moduleRegistry: { [name: string]: SessionLifecycle } = {};
+
+/**
+ * Registry of named instances. In browsers it lives on `window` so that
+ * separately bundled copies of the library (e.g. micro-frontends) share it.
+ */
+function getRegistry(): { [name: string]: SessionLifecycle } {
+  if (typeof window === 'undefined') return moduleRegistry;
+  if (!window.__sessionLifecycleRegistry) {
+    window.__sessionLifecycleRegistry = {};
   }
-  
-  const instance = new SessionLifecycle(config);
-  const methods = instance.getMethods();
-  
-  // Store the new instance globally (browser only)
-  if (typeof window !== 'undefined') {
-    window.__sessionLifecycleInstance = instance;
+  return window.__sessionLifecycleRegistry;
+}
+
+function unregister(name: string, instance: SessionLifecycle): void {
+  const registry = getRegistry();
+  if (registry[name] === instance) {
+    delete registry[name];
   }
-  
+}
+
+/**
+ * Register a new instance and return its methods with a destroy() that unregisters it
+ */
+function registerInstance(instance: SessionLifecycle): SessionLifecycleMethods & { destroy: () => Promise<void> } {
+  const name = instance.getName();
+  getRegistry()[name] = instance;
+
   return {
-    ...methods,
+    ...instance.getMethods(),
     destroy: async () => {
       await instance.destroy();
-      // Clear global reference when destroyed
-      if (typeof window !== 'undefined' && window.__sessionLifecycleInstance === instance) {
-        window.__sessionLifecycleInstance = undefined;
-      }
+      // Clear registry entry when destroyed
+      unregister(name, instance);
     }
   };
 }
 
+/**
+ * Factory function to create a new SessionLifecycle instance and return its methods.
+ * Ensures only one instance exists per name (`config.name`, default 'default') -
+ * automatically destroys the previous instance of the same name
+ * @param config - Optional configuration object
+ * @returns Promise that resolves to object containing session lifecycle methods and instance
+ */
+export async function createSessionLifecycle(config?: SessionLifecycleConfig): Promise<SessionLifecycleMethods & { destroy: () => Promise<void> }> {
+  const name = (config && config.name) || DEFAULT_INSTANCE_NAME;
+
+  // If there's already an instance with this name, destroy it first and wait for completion
+  const previous = getRegistry()[name];
+  if (previous) {
+    console.log(`[SessionLifecycle] Destroying previous '${name}' instance to ensure singleton behavior`);
+    await previous.destroy();
+    unregister(name, previous);
+  }
+
+  return registerInstance(new SessionLifecycle(config));
+}
+
+/**
+ * Get a registered SessionLifecycle instance
+ * @param name - Registry name (default: 'default')
+ * @returns The instance or undefined if none is registered under the name
+ */
+export function getSessionLifecycle(name: string = DEFAULT_INSTANCE_NAME): SessionLifecycle | undefined {
+  return getRegistry()[name];
+}
+
+/**
+ * Names of all registered instances
+ */
+export function getSessionLifecycleNames(): string[] {
+  return Object.keys(getRegistry());
+}
+
+/**
+ * Destroy a registered SessionLifecycle instance
+ * @param name - Registry name (default: 'default')
+ * @returns Promise that resolves to true if an instance was destroyed, false if none was registered
+ */
+export async function destroySessionLifecycle(name: string = DEFAULT_INSTANCE_NAME): Promise<boolean> {
+  const instance = getRegistry()[name];
+  if (!instance) return false;
+
+  await instance.destroy();
+  unregister(name, instance);
+  return true;
+}
+
 /**
  * Get the current active SessionLifecycle instance if it exists
- * @returns The current instance or undefined if no instance is active
+ * @returns The 'default' instance or undefined if no instance is active
  */
 export function getCurrentSessionLifecycle(): SessionLifecycle | undefined {
-  if (typeof window !== 'undefined') {
-    return window.__sessionLifecycleInstance;
-  }
-  return undefined;
+  return getSessionLifecycle(DEFAULT_INSTANCE_NAME);
 }
 
 /**
  * Check if there's already an active SessionLifecycle instance
- * @returns True if an instance is active, false otherwise
+ * @returns True if a 'default' instance is active, false otherwise
  */
 export function hasActiveSessionLifecycle(): boolean {
-  return typeof window !== 'undefined' && !!window.__sessionLifecycleInstance;
+  return !!getSessionLifecycle(DEFAULT_INSTANCE_NAME);
 }
 
 /**
  * Destroy the current active SessionLifecycle instance if it exists
- * @returns Promise that resolves to true if an instance was destroyed, false if no instance was active
+ * @returns Promise that resolves to true if the 'default' instance was destroyed, false if no instance was active
  */
 export async function destroyCurrentSessionLifecycle(): Promise<boolean> {
-  if (typeof window !== 'undefined' && window.__sessionLifecycleInstance) {
-    await window.__sessionLifecycleInstance.destroy();
-    window.__sessionLifecycleInstance = undefined;
-    return true;
-  }
-  return false;
+  return destroySessionLifecycle(DEFAULT_INSTANCE_NAME);
 }
 
 /**
  * Synchronous version of createSessionLifecycle for backward compatibility
- * Note: This version destroys previous instances without waiting for their callbacks to complete
+ * Note: This version destroys the previous instance of the same name without waiting for its callbacks to complete
  * @param config - Optional configuration object  
  * @returns Object containing session lifecycle methods and instance
  */
 export function createSessionLifecycleSync(config?: SessionLifecycleConfig): SessionLifecycleMethods & { destroy: () => Promise<void> } {
-  // Check if we're in a browser environment
-  if (typeof window !== 'undefined') {
-    // If there's already an existing instance, destroy it (without waiting)
-    if (window.__sessionLifecycleInstance) {
-      console.log('[SessionLifecycle] Destroying previous instance to ensure singleton behavior (sync)');
-      window.__sessionLifecycleInstance.destroy().catch(error => {
-        console.error('Error destroying previous instance:', error);
-      });
-      window.__sessionLifecycleInstance = undefined;
-    }
-  }
-  
-  const instance = new SessionLifecycle(config);
-  const methods = instance.getMethods();
-  
-  // Store the new instance globally (browser only)
-  if (typeof window !== 'undefined') {
-    window.__sessionLifecycleInstance = instance;
+  const name = (config && config.name) || DEFAULT_INSTANCE_NAME;
+
+  // If there's already an instance with this name, destroy it (without waiting)
+  const previous = getRegistry()[name];
+  if (previous) {
+    console.log(`[SessionLifecycle] Destroying previous '${name}' instance to ensure singleton behavior (sync)`);
+    previous.destroy().catch(error => {
+      console.error('Error destroying previous instance:', error);
+    });
+    unregister(name, previous);
   }
-  
-  return {
-    ...methods,
-    destroy: async () => {
-      await instance.destroy();
-      // Clear global reference when destroyed
-      if (typeof window !== 'undefined' && window.__sessionLifecycleInstance === instance) {
-        window.__sessionLifecycleInstance = undefined;
-      }
-    }
-  };
+
+  return registerInstance(new SessionLifecycle(config));
 }
 
 // Default export for easier importing (async version for better callback handling)
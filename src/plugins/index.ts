@@ -0,0 +1,9 @@
+export {
+  SessionPlugin,
+  PluginContext,
+  PluginEventName,
+  PluginEventPayloads,
+  PluginHookResult
+} from './types';
+export { PageContextPlugin, PageContextPluginOptions, PageContext } from './page-context';
+export { SessionSamplingPlugin, SessionSamplingPluginOptions, hashToUnitInterval } from './sampling';
@@ -0,0 +1,81 @@
+import { SessionPlugin, PluginEventName, PluginEventPayloads } from './types';
+
+/**
+ * Options for the page context plugin
+ */
+export interface PageContextPluginOptions {
+  /** Application version added as `app_version` */
+  appVersion?: string;
+  /** Events to enrich (default: all) */
+  events?: PluginEventName[];
+}
+
+/**
+ * Page information added by the page context plugin
+ */
+export interface PageContext {
+  url: string;
+  path: string;
+  referrer: string;
+  title: string;
+  viewport_width: number;
+  viewport_height: number;
+  utm: { [param: string]: string };
+}
+
+const UTM_PARAMS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'];
+
+/**
+ * Adds URL, referrer, title, viewport and UTM parameters (as `page`) and
+ * optionally the app version to event payloads
+ */
+export class PageContextPlugin implements SessionPlugin {
+  public readonly name = 'page-context';
+
+  constructor(private options: PageContextPluginOptions = {}) {}
+
+  public onEvent<K extends PluginEventName>(event: K, data: PluginEventPayloads[K]): PluginEventPayloads[K] {
+    if (this.options.events && this.options.events.indexOf(event) === -1) {
+      return data;
+    }
+
+    const extra: { page?: PageContext, app_version?: string } = {};
+    const page = this.getPageContext();
+    if (page) {
+      extra.page = page;
+    }
+    if (this.options.appVersion) {
+      extra.app_version = this.options.appVersion;
+    }
+    return { ...data, ...extra };
+  }
+
+  private getPageContext(): PageContext | null {
+    if (typeof window === 'undefined' || typeof document === 'undefined' || !window.location) {
+      return null;
+    }
+
+    const utm: { [param: string]: string } = {};
+    try {
+      const params = new URLSearchParams(window.location.search);
+      UTM_PARAMS.forEach(param => {
+        const value = params.get(param);
+        if (value) {
+          utm[param.slice(4)] = value;
+        }
+      });
+    } catch (error) {
+      // 不支持 URLSearchParams 时忽略 UTM 参数
+    }
+
+    return {
+      url: window.location.href,
+      path: window.location.pathname,
+      referrer: document.referrer || '',
+      title: document.title || '',
+      viewport_width: window.innerWidth || 0,
+      viewport_height: window.innerHeight || 0,
+      utm
+    };
+  }
+}
@@ -0,0 +1,53 @@
+import { SessionPlugin, PluginEventName, PluginEventPayloads } from './types';
+
+/**
+ * Options for the session sampling plugin
+ */
+export interface SessionSamplingPluginOptions {
+  /** Fraction of sessions to keep, between 0 and 1 */
+  rate: number;
+  /** Events dropped for sessions outside the sample (default: all) */
+  events?: PluginEventName[];
+  /** Extra key mixed into the hash, e.g. to sample per experiment (default: none) */
+  salt?: string;
+}
+
+/**
+ * Hash a string to a number in [0, 1) (FNV-1a)
+ */
+export function hashToUnitInterval(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Keeps a deterministic fraction of sessions: every event of a session is
+ * either kept or dropped, based on a hash of its session id
+ */
+export class SessionSamplingPlugin implements SessionPlugin {
+  public readonly name = 'session-sampling';
+
+  constructor(private options: SessionSamplingPluginOptions) {
+    if (typeof options.rate !== 'number' || options.rate < 0 || options.rate > 1) {
+      throw new Error('SessionSamplingPlugin rate must be between 0 and 1');
+    }
+  }
+
+  /**
+   * Check whether a session is in the sample
+   */
+  public isSampled(sessionId: string): boolean {
+    return hashToUnitInterval(`${this.options.salt || ''}${sessionId}`) < this.options.rate;
+  }
+
+  public onEvent<K extends PluginEventName>(event: K, data: PluginEventPayloads[K]): PluginEventPayloads[K] | false {
+    if (this.options.events && this.options.events.indexOf(event) === -1) {
+      return data;
+    }
+    return this.isSampled(data.session_id) ? data : false;
+  }
+}
@@ -0,0 +1,80 @@
+import type {
+  SessionStartData,
+  SessionEndData,
+  SessionLifeData,
+  SessionPauseData,
+  SessionResumeData,
+  SessionRouteChangeData,
+  SessionInfo
+} from '../index';
+
+/**
+ * Events whose payloads pass through plugins
+ */
+export type PluginEventName =
+  | 'session_start'
+  | 'session_end'
+  | 'session_life'
+  | 'session_pause'
+  | 'session_resume'
+  | 'route_change';
+
+/**
+ * Payload of each plugin event
+ */
+export type PluginEventPayloads = {
+  session_start: SessionStartData;
+  session_end: SessionEndData;
+  session_life: SessionLifeData;
+  session_pause: SessionPauseData;
+  session_resume: SessionResumeData;
+  route_change: SessionRouteChangeData;
+};
+
+/**
+ * Result of a plugin hook: a new payload, false to veto the event,
+ * or nothing to keep the payload unchanged
+ */
+export type PluginHookResult<T> = T | false | void;
+
+/**
+ * What a plugin can access from the lifecycle
+ */
+export interface PluginContext {
+  /** Snapshot of the current session */
+  getSessionInfo(): SessionInfo;
+  /** Write a debug log message (only shown with debug: true) */
+  log(message: string): void;
+}
+
+/**
+ * Plugin that enriches, filters or samples lifecycle events.
+ *
+ * Hooks run in registration order before an event is reported or passed to
+ * handlers; a vetoed event is dropped, the session state is not affected.
+ */
+export interface SessionPlugin {
+  /** Plugin name, used in debug logs and error messages */
+  readonly name: string;
+
+  /** Called when the lifecycle initializes (or when added after initialization) */
+  setup?(context: PluginContext): void;
+
+  /** Called when the lifecycle is destroyed or the plugin is removed */
+  teardown?(): void;
+
+  /** Transform or veto a session start event */
+  onSessionStart?(data: SessionStartData): PluginHookResult<SessionStartData>;
+
+  /** Transform or veto a heartbeat */
+  onSessionLife?(data: SessionLifeData): PluginHookResult<SessionLifeData>;
+
+  /** Transform or veto a session end event */
+  onSessionEnd?(data: SessionEndData): PluginHookResult<SessionEndData>;
+
+  /** Transform or veto any event, after the event-specific hook */
+  onEvent?<K extends PluginEventName>(
+    event: K,
+    data: PluginEventPayloads[K]
+  ): PluginHookResult<PluginEventPayloads[K]>;
+}
@@ -0,0 +1,430 @@
+import { Clock, Scheduler, TimerHandle, systemClock, systemScheduler } from './time';
+
+/**
+ * A lifecycle event queued for delivery
+ */
+export interface ReportedEvent<T = unknown> {
+  /** Event name, e.g. 'session_start', 'session_life', 'session_end' */
+  event: string;
+  /** Event payload */
+  data: T;
+}
+
+/**
+ * Configuration options for the built-in event reporter
+ */
+export interface ReporterConfig {
+  /** URL the events are POSTed to as JSON `{ sent_at, events }` */
+  endpoint: string;
+  /** Maximum number of events per request (default: 20) */
+  batchSize?: number;
+  /** Maximum time in milliseconds an event waits before its batch is sent (default: 5000) */
+  flushInterval?: number;
+  /** Number of retries for a failed batch before it is moved to the offline queue (default: 5) */
+  maxRetries?: number;
+  /** Initial retry delay in milliseconds, doubled after each failure (default: 1000) */
+  retryDelay?: number;
+  /** Upper bound for the retry delay in milliseconds (default: 30000) */
+  maxRetryDelay?: number;
+  /** Extra request headers (not supported by sendBeacon during unload) */
+  headers?: Record<string, string>;
+  /** Keep undelivered events in IndexedDB while offline (default: true) */
+  offlineQueue?: boolean;
+  /** IndexedDB database name for the offline queue (default: 'session-lifecycle-reporter') */
+  databaseName?: string;
+}
+
+/**
+ * Maximum body size of one beacon; browsers refuse sendBeacon and keepalive
+ * requests above 64 KB (kept below it to leave room for the envelope)
+ */
+const BEACON_MAX_BYTES = 60 * 1024;
+
+function byteLength(text: string): number {
+  // 无 TextEncoder 时按 UTF-8 最坏情况估算
+  return typeof TextEncoder !== 'undefined' ? new TextEncoder().encode(text).length : text.length * 3;
+}
+
+/**
+ * Storage for events that could not be delivered
+ */
+interface OfflineEventStore {
+  add(events: ReportedEvent[]): Promise<void>;
+  takeAll(): Promise<ReportedEvent[]>;
+  close(): void;
+}
+
+/**
+ * Offline queue kept in memory (used when IndexedDB is unavailable)
+ */
+class MemoryEventStore implements OfflineEventStore {
+  private events: ReportedEvent[] = [];
+
+  public async add(events: ReportedEvent[]): Promise<void> {
+    this.events.push(...events);
+  }
+
+  public async takeAll(): Promise<ReportedEvent[]> {
+    const events = this.events;
+    this.events = [];
+    return events;
+  }
+
+  public close(): void {
+    // nothing to release
+  }
+}
+
+/**
+ * Offline queue persisted in IndexedDB so events survive a page close
+ */
+class IndexedDBEventStore implements OfflineEventStore {
+  private static readonly STORE_NAME = 'events';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private databaseName: string) {}
+
+  public async add(events: ReportedEvent[]): Promise<void> {
+    if (events.length === 0) return;
+
+    const db = await this.open();
+    const tx = db.transaction(IndexedDBEventStore.STORE_NAME, 'readwrite');
+    const store = tx.objectStore(IndexedDBEventStore.STORE_NAME);
+    events.forEach(event => store.add(event));
+    await this.complete(tx);
+  }
+
+  public async takeAll(): Promise<ReportedEvent[]> {
+    const db = await this.open();
+    const tx = db.transaction(IndexedDBEventStore.STORE_NAME, 'readwrite');
+    const store = tx.objectStore(IndexedDBEventStore.STORE_NAME);
+
+    // 在同一事务中读取并清空，避免重复投递
+    const request = store.getAll();
+    store.clear();
+    await this.complete(tx);
+
+    return request.result as ReportedEvent[];
+  }
+
+  public close(): void {
+    if (this.dbPromise) {
+      this.dbPromise.then(db => db.close()).catch(() => undefined);
+      this.dbPromise = null;
+    }
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(IndexedDBEventStore.STORE_NAME, { autoIncrement: true });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private complete(tx: IDBTransaction): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+}
+
+/**
+ * Batches lifecycle events and delivers them to an HTTP endpoint.
+ *
+ * Events are sent with `fetch`, retried with exponential backoff and kept in an
+ * offline queue while the browser is offline. During page unload the remaining
+ * events are sent with `navigator.sendBeacon` (or `fetch` with `keepalive`).
+ */
+export class EventReporter {
+  private readonly config: Required<Omit<ReporterConfig, 'headers'>> & { headers: Record<string, string> };
+  private queue: ReportedEvent[] = [];
+  private offlineStore: OfflineEventStore;
+  private flushTimer: TimerHandle | null = null;
+  private retryTimer: TimerHandle | null = null;
+  private inFlight: ReportedEvent[] | null = null;
+  private retryCount = 0;
+  private destroyed = false;
+
+  constructor(
+    config: ReporterConfig,
+    private log: (message: string) => void = () => undefined,
+    private clock: Clock = systemClock,
+    private scheduler: Scheduler = systemScheduler
+  ) {
+    if (!config || typeof config.endpoint !== 'string' || !config.endpoint) {
+      throw new Error('Reporter endpoint must be a non-empty string');
+    }
+
+    this.config = {
+      batchSize: 20,
+      flushInterval: 5000,
+      maxRetries: 5,
+      retryDelay: 1000,
+      maxRetryDelay: 30000,
+      offlineQueue: true,
+      databaseName: 'session-lifecycle-reporter',
+      ...config,
+      headers: { 'Content-Type': 'application/json', ...config.headers }
+    };
+
+    this.offlineStore = this.config.offlineQueue && typeof indexedDB !== 'undefined'
+      ? new IndexedDBEventStore(this.config.databaseName)
+      : new MemoryEventStore();
+  }
+
+  /**
+   * Queue an event for delivery
+   */
+  public enqueue(event: ReportedEvent): void {
+    if (this.destroyed) return;
+
+    this.queue.push(event);
+
+    if (this.queue.length >= this.config.batchSize) {
+      this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = this.scheduler.setTimeout(() => {
+        this.flushTimer = null;
+        this.flush();
+      }, this.config.flushInterval);
+    }
+  }
+
+  /**
+   * Send the queued events now. While offline they are moved to the offline queue.
+   */
+  public flush(): void {
+    this.clearFlushTimer();
+
+    if (this.queue.length === 0 || this.inFlight) return;
+
+    if (!this.isOnline()) {
+      this.moveToOfflineQueue(this.queue.splice(0));
+      return;
+    }
+
+    this.inFlight = this.queue.splice(0, this.config.batchSize);
+    this.sendBatch(this.inFlight);
+  }
+
+  /**
+   * Deliver the queued events during page unload (or when the page is hidden).
+   * Uses sendBeacon, in chunks below the 64 KB limit, so the requests survive the
+   * page being torn down; chunks the browser refuses go to the offline queue.
+   * A batch already in flight is left to its own request (and its retries).
+   */
+  public flushOnUnload(): void {
+    this.clearFlushTimer();
+
+    const events = this.queue.splice(0);
+    if (events.length === 0) return;
+
+    if (!this.isOnline()) {
+      this.moveToOfflineQueue(events);
+      return;
+    }
+
+    const refused: ReportedEvent[] = [];
+    let sent = 0;
+    this.splitForBeacon(events).forEach(chunk => {
+      if (this.sendWithBeacon(chunk)) {
+        sent += chunk.length;
+      } else {
+        refused.push(...chunk);
+      }
+    });
+    if (sent > 0) {
+      this.log(`Reporter: sent ${sent} events with sendBeacon`);
+    }
+    // 无法交给浏览器的事件保存到离线队列，下次加载时回放
+    this.moveToOfflineQueue(refused);
+  }
+
+  /**
+   * Replay the events stored while offline (called when the browser goes back online)
+   */
+  public async replayOfflineQueue(): Promise<void> {
+    if (this.destroyed) return;
+
+    try {
+      const events = await this.offlineStore.takeAll();
+      if (events.length === 0) return;
+
+      this.log(`Reporter: replaying ${events.length} offline events`);
+      this.queue = events.concat(this.queue);
+      this.flush();
+    } catch (error) {
+      console.error('Error replaying offline events:', error);
+    }
+  }
+
+  /**
+   * Stop timers and release resources. Pending events are sent with sendBeacon.
+   */
+  public destroy(): void {
+    this.flushOnUnload();
+    if (this.retryTimer && this.inFlight) {
+      // 等待重试的批次不会再发送，保存到离线队列
+      this.moveToOfflineQueue(this.inFlight);
+      this.inFlight = null;
+    }
+    this.cancelRetry();
+    this.destroyed = true;
+    this.offlineStore.close();
+  }
+
+  /**
+   * POST a batch and handle success, retry or hand-off to the offline queue
+   */
+  private sendBatch(events: ReportedEvent[]): void {
+    this.post(events, false)
+      .then(() => {
+        this.log(`Reporter: delivered ${events.length} events`);
+        this.inFlight = null;
+        this.retryCount = 0;
+        // 继续发送剩余事件
+        if (this.queue.length > 0) {
+          this.flush();
+        }
+      })
+      .catch(error => {
+        if (this.inFlight !== events) return; // 批次已转交他处（如 destroy() 存入离线队列），不再重试
+
+        if (this.destroyed || !this.isOnline() || this.retryCount >= this.config.maxRetries) {
+          this.log(`Reporter: giving up on ${events.length} events for now - ${error}`);
+          this.inFlight = null;
+          this.retryCount = 0;
+          this.moveToOfflineQueue(events);
+          return;
+        }
+
+        const delay = Math.min(this.config.retryDelay * Math.pow(2, this.retryCount), this.config.maxRetryDelay);
+        this.retryCount++;
+        this.log(`Reporter: delivery failed, retry #${this.retryCount} in ${delay}ms`);
+
+        this.retryTimer = this.scheduler.setTimeout(() => {
+          this.retryTimer = null;
+          if (this.inFlight === events) {
+            this.sendBatch(events);
+          }
+        }, delay);
+      });
+  }
+
+  /**
+   * POST events to the endpoint, rejecting on network errors and non-2xx responses
+   */
+  private async post(events: ReportedEvent[], keepalive: boolean): Promise<void> {
+    if (typeof fetch === 'undefined') {
+      throw new Error('fetch is not available');
+    }
+
+    const response = await fetch(this.config.endpoint, {
+      method: 'POST',
+      headers: this.config.headers,
+      body: this.serialize(events),
+      keepalive
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+  }
+
+  /**
+   * Split events into chunks whose serialized body fits in one beacon
+   * (an event larger than the limit is sent on its own)
+   */
+  private splitForBeacon(events: ReportedEvent[]): ReportedEvent[][] {
+    const envelopeSize = byteLength(this.serialize([]));
+    const chunks: ReportedEvent[][] = [];
+    let chunk: ReportedEvent[] = [];
+    let size = envelopeSize;
+
+    events.forEach(event => {
+      const eventSize = byteLength(JSON.stringify(event)) + 1; // 含分隔逗号
+      if (chunk.length > 0 && size + eventSize > BEACON_MAX_BYTES) {
+        chunks.push(chunk);
+        chunk = [];
+        size = envelopeSize;
+      }
+      chunk.push(event);
+      size += eventSize;
+    });
+    if (chunk.length > 0) {
+      chunks.push(chunk);
+    }
+    return chunks;
+  }
+
+  /**
+   * Send events with navigator.sendBeacon, falling back to fetch with keepalive
+   * (events of a failed keepalive request go to the offline queue)
+   * @returns True if the request was handed to the browser
+   */
+  private sendWithBeacon(events: ReportedEvent[]): boolean {
+    const body = this.serialize(events);
+
+    if (typeof navigator !== 'undefined' && typeof navigator.sendBeacon === 'function') {
+      try {
+        const blob = new Blob([body], { type: 'application/json' });
+        if (navigator.sendBeacon(this.config.endpoint, blob)) {
+          return true;
+        }
+      } catch (error) {
+        // 回退到 fetch keepalive
+      }
+    }
+
+    if (typeof fetch !== 'undefined') {
+      this.post(events, true).catch(error => {
+        console.error('Error sending events during unload:', error);
+        this.moveToOfflineQueue(events);
+      });
+      return true;
+    }
+
+    return false;
+  }
+
+  private serialize(events: ReportedEvent[]): string {
+    return JSON.stringify({ sent_at: this.clock.now(), events });
+  }
+
+  private moveToOfflineQueue(events: ReportedEvent[]): void {
+    if (events.length === 0) return;
+
+    this.log(`Reporter: storing ${events.length} events in offline queue`);
+    this.offlineStore.add(events).catch(error => {
+      console.error('Error storing offline events:', error);
+    });
+  }
+
+  private isOnline(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine !== false;
+  }
+
+  private clearFlushTimer(): void {
+    if (this.flushTimer) {
+      this.scheduler.clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  private cancelRetry(): void {
+    if (this.retryTimer) {
+      this.scheduler.clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.retryCount = 0;
+  }
+}
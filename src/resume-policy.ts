@@ -0,0 +1,55 @@
+import { DeviceClass } from './device';
+
+/**
+ * Decide whether a paused session resumes
+ * @param pauseDuration - How long the session was paused in milliseconds
+ * @param deviceClass - Class of the current device
+ * @returns true to resume the session, false to end it and start a new one
+ */
+export type ResumePolicyFunction = (pauseDuration: number, deviceClass: DeviceClass) => boolean;
+
+/**
+ * What happens when a paused session becomes visible again
+ * - number: grace period in milliseconds; longer pauses end the session
+ * - 'new_session': always start a new session (the paused session ends right away)
+ * - 'resume': always resume the paused session
+ * - function: decide per pause
+ */
+export type ResumePolicy = number | 'new_session' | 'resume' | ResumePolicyFunction;
+
+/**
+ * Apply a resume policy to a pause
+ * @param maxPauseDuration - Pauses longer than this never resume, whatever the policy
+ * @returns Whether the paused session resumes
+ */
+export function shouldResumeSession(
+  policy: ResumePolicy,
+  pauseDuration: number,
+  deviceClass: DeviceClass,
+  maxPauseDuration: number
+): boolean {
+  if (hasPauseLimit(maxPauseDuration) && pauseDuration > maxPauseDuration) return false;
+  if (typeof policy === 'function') {
+    return !!policy(pauseDuration, deviceClass);
+  }
+  if (policy === 'resume') return true;
+  if (policy === 'new_session') return false;
+  return pauseDuration <= policy;
+}
+
+/**
+ * Time after which a paused session is ended without waiting for the resume
+ * @param maxPauseDuration - Upper bound for every policy, 0 or Infinity for none
+ * @returns Delay in milliseconds, or null when only the resume can decide
+ */
+export function getPauseExpiryDelay(policy: ResumePolicy, maxPauseDuration: number): number | null {
+  const limit = hasPauseLimit(maxPauseDuration) ? maxPauseDuration : Infinity;
+  if (policy === 'new_session') return 0;
+  // 'resume' 和自定义函数在恢复时判断，但暂停时间仍不超过上限
+  const delay = typeof policy === 'number' ? Math.min(policy, limit) : limit;
+  return isFinite(delay) ? delay : null;
+}
+
+function hasPauseLimit(maxPauseDuration: number): boolean {
+  return maxPauseDuration > 0 && isFinite(maxPauseDuration);
+}
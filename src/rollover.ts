@@ -0,0 +1,99 @@
+/**
+ * Why a session was split
+ * - max_duration: the session reached maxSessionDuration
+ * - midnight: the calendar day changed in the configured time zone
+ */
+export type SessionRolloverReason = 'max_duration' | 'midnight';
+
+/**
+ * Options deciding where a session is split
+ */
+export interface RolloverOptions {
+  /** Maximum session length in milliseconds, 0 for none */
+  maxSessionDuration: number;
+  /** Split the session when the calendar day changes */
+  splitAtMidnight: boolean;
+  /** IANA time zone of the calendar day, null for the runtime's local time zone */
+  timeZone: string | null;
+}
+
+/**
+ * Next point in time where a session has to be split
+ */
+export interface RolloverBoundary {
+  time: number;
+  reason: SessionRolloverReason;
+}
+
+const formatters: { [timeZone: string]: Intl.DateTimeFormat } = {};
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  if (!formatters[timeZone]) {
+    formatters[timeZone] = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hour12: false,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+  }
+  return formatters[timeZone];
+}
+
+/**
+ * Offset of the time zone from UTC at the given time, in milliseconds
+ */
+function getTimeZoneOffset(time: number, timeZone: string): number {
+  const parts: { [type: string]: number } = {};
+  getFormatter(timeZone).formatToParts(new Date(time)).forEach(part => {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  });
+  // 部分引擎在 hour12: false 时将午夜格式化为 24 时
+  const wallTime = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute, parts.second);
+  return wallTime - Math.floor(time / 1000) * 1000;
+}
+
+/**
+ * Start of the next calendar day after `time`
+ * @param timeZone - IANA time zone, null for the runtime's local time zone
+ */
+export function getNextMidnight(time: number, timeZone: string | null): number {
+  if (!timeZone) {
+    const date = new Date(time);
+    date.setHours(24, 0, 0, 0);
+    return date.getTime();
+  }
+
+  // 以 UTC 计算目标时区的墙上时间，再换算回时间戳
+  const wall = new Date(time + getTimeZoneOffset(time, timeZone));
+  const nextDay = Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate() + 1);
+  const estimate = nextDay - getTimeZoneOffset(time, timeZone);
+  // 夏令时切换当天偏移量会变化，按午夜时刻的偏移量修正
+  return nextDay - getTimeZoneOffset(estimate, timeZone);
+}
+
+/**
+ * Find the first boundary after which a session started at `startTime` must be split
+ * @returns The boundary, or null when sessions are never split
+ */
+export function getRolloverBoundary(startTime: number, options: RolloverOptions): RolloverBoundary | null {
+  let boundary: RolloverBoundary | null = null;
+
+  if (options.maxSessionDuration > 0) {
+    boundary = { time: startTime + options.maxSessionDuration, reason: 'max_duration' };
+  }
+
+  if (options.splitAtMidnight) {
+    const midnight = getNextMidnight(startTime, options.timeZone);
+    if (!boundary || midnight < boundary.time) {
+      boundary = { time: midnight, reason: 'midnight' };
+    }
+  }
+
+  return boundary;
+}
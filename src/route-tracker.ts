@@ -0,0 +1,143 @@
+/**
+ * Configuration options for SPA route tracking
+ */
+export interface RouteTrackingConfig {
+  /** Track hash changes as route changes (default: true) */
+  hash?: boolean;
+  /**
+   * Build the route from the current location
+   * (default: pathname + search, plus the hash when `hash` is enabled)
+   */
+  getRoute?: (location: Location) => string;
+}
+
+/**
+ * Callbacks invoked by the route tracker
+ */
+export interface RouteTrackerHandlers {
+  /** The route changed (only called when the route string differs) */
+  onRouteChange: (route: string, previousRoute: string, source: string) => void;
+}
+
+type HistoryMethod = 'pushState' | 'replaceState';
+
+/**
+ * Detects route changes in single-page apps by wrapping `history.pushState` /
+ * `history.replaceState` and listening to `popstate` and `hashchange`
+ */
+export class RouteTracker {
+  private readonly config: Required<RouteTrackingConfig>;
+  private route = '';
+  private originals: Partial<Record<HistoryMethod, History['pushState']>> = {};
+  private wrappers: Partial<Record<HistoryMethod, History['pushState']>> = {};
+  private listeners: Array<{ event: string, listener: () => void }> = [];
+  // 其他库在本包装之上再次包装时无法还原 history 方法，停止后包装函数只转发调用
+  private stopped = true;
+
+  constructor(config: RouteTrackingConfig, private handlers: RouteTrackerHandlers) {
+    const hash = config.hash !== false;
+    this.config = {
+      hash,
+      getRoute: (location: Location) => location.pathname + location.search + (hash ? location.hash : ''),
+      ...config
+    };
+  }
+
+  /**
+   * Check whether route tracking is available
+   */
+  public static isSupported(): boolean {
+    return typeof window !== 'undefined' && !!window.history && !!window.location;
+  }
+
+  /**
+   * Current route
+   */
+  public getRoute(): string {
+    return this.route;
+  }
+
+  /**
+   * Start tracking
+   * @returns Whether tracking started
+   */
+  public start(): boolean {
+    if (!RouteTracker.isSupported()) return false;
+
+    this.stop();
+    this.stopped = false;
+    this.route = this.readRoute();
+
+    (['pushState', 'replaceState'] as HistoryMethod[]).forEach(method => {
+      const original = window.history[method];
+      this.originals[method] = original;
+      const tracker = this;
+      const wrapper = function (this: History, ...args: Parameters<History['pushState']>) {
+        const result = original.apply(this, args);
+        if (!tracker.stopped) {
+          tracker.check(method);
+        }
+        return result;
+      };
+      this.wrappers[method] = wrapper;
+      window.history[method] = wrapper;
+    });
+
+    this.listen('popstate');
+    if (this.config.hash) {
+      this.listen('hashchange');
+    }
+    return true;
+  }
+
+  /**
+   * Stop tracking and restore the history methods
+   */
+  public stop(): void {
+    this.stopped = true;
+    if (typeof window === 'undefined') return;
+
+    (Object.keys(this.originals) as HistoryMethod[]).forEach(method => {
+      const original = this.originals[method];
+      // 仅在未被其他库再次包装时恢复
+      if (original && window.history[method] === this.wrappers[method]) {
+        window.history[method] = original;
+      }
+    });
+    this.originals = {};
+    this.wrappers = {};
+
+    this.listeners.forEach(({ event, listener }) => {
+      window.removeEventListener(event, listener);
+    });
+    this.listeners = [];
+  }
+
+  private listen(event: string): void {
+    const listener = () => this.check(event);
+    this.listeners.push({ event, listener });
+    window.addEventListener(event, listener);
+  }
+
+  /**
+   * Compare the current location with the known route
+   */
+  private check(source: string): void {
+    if (this.stopped) return;
+
+    const route = this.readRoute();
+    if (route === this.route) return;
+
+    const previousRoute = this.route;
+    this.route = route;
+    this.handlers.onRouteChange(route, previousRoute, source);
+  }
+
+  private readRoute(): string {
+    try {
+      return this.config.getRoute(window.location);
+    } catch (error) {
+      return window.location.pathname;
+    }
+  }
+}
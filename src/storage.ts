@@ -0,0 +1,161 @@
+import { getCookie, setCookie, removeCookie, CookieOptions } from './utils';
+
+/**
+ * Minimal key/value storage used to persist session state across page loads
+ */
+export interface SessionStorageAdapter {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/**
+ * Built-in storage adapter names
+ */
+export type SessionStorageType = 'sessionStorage' | 'localStorage' | 'cookie' | 'memory';
+
+/**
+ * Configuration options for session persistence
+ */
+export interface SessionPersistenceConfig {
+  /** Storage adapter or built-in adapter name (default: 'sessionStorage') */
+  storage?: SessionStorageType | SessionStorageAdapter;
+  /** Storage key (default: 'session-lifecycle:session') */
+  key?: string;
+  /**
+   * Maximum time in milliseconds between the last activity of the previous page
+   * and the next page load for the session to continue (default: inactivityTimeout)
+   */
+  continuationWindow?: number;
+  /** Cookie options, used when storage is 'cookie' */
+  cookie?: CookieOptions;
+}
+
+/**
+ * Session state saved between page loads
+ */
+export interface PersistedSession {
+  sessionId: string;
+  startTime: number;
+  lastActivityTime: number;
+  lastHeartbeatTime: number;
+  seq: number;
+  /** Identified user of the session (missing in records of older versions) */
+  userId?: string | null;
+}
+
+/**
+ * Create an adapter backed by window.sessionStorage or window.localStorage.
+ * Returns null when the storage is unavailable (non-browser, privacy mode, ...).
+ */
+export function createWebStorageAdapter(type: 'sessionStorage' | 'localStorage'): SessionStorageAdapter | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const storage = window[type];
+    if (!storage) return null;
+    // 写入测试，Safari 隐私模式下 setItem 会抛错
+    const probe = '__session_lifecycle_probe__';
+    storage.setItem(probe, probe);
+    storage.removeItem(probe);
+    return storage;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Create an adapter backed by first-party cookies
+ */
+export function createCookieStorageAdapter(options: CookieOptions = {}): SessionStorageAdapter {
+  return {
+    getItem: (key) => getCookie(key),
+    setItem: (key, value) => setCookie(key, value, options),
+    removeItem: (key) => removeCookie(key, options)
+  };
+}
+
+/**
+ * Create an in-memory adapter (only survives within the current JavaScript context)
+ */
+export function createMemoryStorageAdapter(): SessionStorageAdapter {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => (items.has(key) ? items.get(key)! : null),
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    }
+  };
+}
+
+/**
+ * Resolve a storage option to an adapter
+ */
+export function resolveStorageAdapter(
+  storage: SessionStorageType | SessionStorageAdapter,
+  cookieOptions?: CookieOptions
+): SessionStorageAdapter | null {
+  if (typeof storage !== 'string') return storage;
+
+  switch (storage) {
+    case 'sessionStorage':
+    case 'localStorage':
+      return createWebStorageAdapter(storage);
+    case 'cookie':
+      return typeof document === 'undefined' ? null : createCookieStorageAdapter(cookieOptions);
+    case 'memory':
+      return createMemoryStorageAdapter();
+    default:
+      return null;
+  }
+}
+
+/**
+ * Reads and writes the persisted session record
+ */
+export class SessionPersistence {
+  constructor(private adapter: SessionStorageAdapter, private key: string) {}
+
+  /**
+   * Load the persisted session, or null if missing or corrupt
+   */
+  public load(): PersistedSession | null {
+    try {
+      const raw = this.adapter.getItem(this.key);
+      if (!raw) return null;
+
+      const record = JSON.parse(raw) as PersistedSession;
+      if (!record || typeof record.sessionId !== 'string' || typeof record.startTime !== 'number') {
+        return null;
+      }
+      return record;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Save the session record
+   */
+  public save(record: PersistedSession): void {
+    try {
+      this.adapter.setItem(this.key, JSON.stringify(record));
+    } catch (error) {
+      console.error('Error persisting session state:', error);
+    }
+  }
+
+  /**
+   * Remove the persisted session record
+   */
+  public clear(): void {
+    try {
+      this.adapter.removeItem(this.key);
+    } catch (error) {
+      console.error('Error clearing persisted session state:', error);
+    }
+  }
+}
@@ -0,0 +1,248 @@
+/**
+ * Opaque handle returned by a scheduler
+ */
+export type TimerHandle = unknown;
+
+/**
+ * Source of the current time
+ */
+export interface Clock {
+  /** Current time in milliseconds since the epoch */
+  now(): number;
+  /**
+   * Monotonic time in milliseconds from an arbitrary origin, unaffected by
+   * wall-clock changes (optional; used to measure durations)
+   */
+  monotonic?(): number;
+}
+
+/**
+ * Timer functions used by the lifecycle
+ */
+export interface Scheduler {
+  setTimeout(callback: () => void, delay: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+  setInterval(callback: () => void, interval: number): TimerHandle;
+  clearInterval(handle: TimerHandle): void;
+}
+
+/**
+ * Clock backed by Date.now(), with performance.now() as monotonic time when available
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  monotonic: typeof performance !== 'undefined' && typeof performance.now === 'function'
+    ? () => performance.now()
+    : undefined
+};
+
+/**
+ * Epoch time derived from a clock's monotonic time, so durations are not
+ * corrupted by wall-clock changes.
+ *
+ * Time is anchored to the wall clock and then advanced by monotonic time only:
+ * manual or NTP adjustments of the wall clock never move it, and `now()` never
+ * decreases. Only `resync()` moves the anchor, for platforms whose monotonic
+ * time stops during a system suspend.
+ */
+export class MonotonicClock implements Clock {
+  private wallAnchor: number;
+  private monotonicAnchor: number;
+
+  /**
+   * @param source - Clock providing wall time and `monotonic()`
+   */
+  constructor(private source: Clock & { monotonic(): number }) {
+    this.wallAnchor = source.now();
+    this.monotonicAnchor = source.monotonic();
+  }
+
+  public now(): number {
+    // performance.now() 带小数，时间戳保持整数毫秒
+    return Math.round(this.wallAnchor + (this.source.monotonic() - this.monotonicAnchor));
+  }
+
+  /**
+   * Re-anchor to the wall clock when wall time ran ahead of monotonic time by
+   * more than `threshold` (monotonic time stopped while the system was suspended)
+   * @returns The time monotonic time missed, or 0 when the clock was not re-anchored
+   */
+  public resync(threshold: number): number {
+    const wall = this.source.now();
+    const missed = Math.round(wall - this.wallAnchor - (this.source.monotonic() - this.monotonicAnchor));
+    if (missed <= threshold) return 0;
+
+    this.wallAnchor = wall;
+    this.monotonicAnchor = this.source.monotonic();
+    return missed;
+  }
+
+  public monotonic(): number {
+    return this.source.monotonic();
+  }
+}
+
+/**
+ * Wrap a clock in a MonotonicClock when it provides monotonic time
+ */
+export function toMonotonicClock(clock: Clock): Clock {
+  return typeof clock.monotonic === 'function'
+    ? new MonotonicClock(clock as Clock & { monotonic(): number })
+    : clock;
+}
+
+/**
+ * Longest delay setTimeout accepts; longer delays fire immediately
+ */
+export const MAX_TIMER_DELAY = 2147483647;
+
+/**
+ * Scheduler backed by the global timer functions
+ */
+export const systemScheduler: Scheduler = {
+  setTimeout: (callback, delay) => setTimeout(callback, delay),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+  setInterval: (callback, interval) => setInterval(callback, interval),
+  clearInterval: (handle) => clearInterval(handle as ReturnType<typeof setInterval>)
+};
+
+interface VirtualTimer {
+  id: number;
+  callback: () => void;
+  dueTime: number;
+  interval: number | null;
+}
+
+/**
+ * Virtual clock and scheduler for deterministic tests.
+ *
+ * Time only moves when `advance()` is called; timers due in the advanced window
+ * run in order, with `now()` set to their due time.
+ *
+ * @example
+ * const time = new VirtualTime();
+ * const lifecycle = new SessionLifecycle({ clock: time, scheduler: time });
+ * time.advance(120000); // run two minutes of timers instantly
+ */
+export class VirtualTime implements Clock, Scheduler {
+  private currentTime: number;
+  private timers: VirtualTimer[] = [];
+  private nextId = 1;
+
+  /**
+   * @param startTime - Initial value of `now()` (default: 0)
+   */
+  constructor(startTime = 0) {
+    this.currentTime = startTime;
+  }
+
+  public now(): number {
+    return this.currentTime;
+  }
+
+  public setTimeout(callback: () => void, delay: number): TimerHandle {
+    return this.addTimer(callback, delay, null);
+  }
+
+  public clearTimeout(handle: TimerHandle): void {
+    this.removeTimer(handle);
+  }
+
+  public setInterval(callback: () => void, interval: number): TimerHandle {
+    return this.addTimer(callback, interval, Math.max(interval, 1));
+  }
+
+  public clearInterval(handle: TimerHandle): void {
+    this.removeTimer(handle);
+  }
+
+  /**
+   * Move time forward, running every timer that becomes due
+   * @param ms - Milliseconds to advance
+   */
+  public advance(ms: number): void {
+    const targetTime = this.currentTime + Math.max(ms, 0);
+
+    let timer = this.nextDueTimer(targetTime);
+    while (timer) {
+      this.currentTime = timer.dueTime;
+      if (timer.interval !== null) {
+        timer.dueTime += timer.interval;
+      } else {
+        this.removeTimer(timer.id);
+      }
+      timer.callback();
+      timer = this.nextDueTimer(targetTime);
+    }
+
+    this.currentTime = targetTime;
+  }
+
+  /**
+   * Move time forward to the next pending timer and run it
+   * @returns False if no timer is pending
+   */
+  public runNext(): boolean {
+    const timer = this.nextDueTimer(Infinity);
+    if (!timer) return false;
+    this.advance(timer.dueTime - this.currentTime);
+    return true;
+  }
+
+  /**
+   * Move time forward with timers frozen, like a device that sleeps and wakes up.
+   * Timers that became due fire once on the next `advance()`; intervals continue
+   * from the wake-up time.
+   * @param ms - Milliseconds to sleep
+   */
+  public suspend(ms: number): void {
+    this.currentTime += Math.max(ms, 0);
+    this.timers.forEach(timer => {
+      if (timer.dueTime < this.currentTime) {
+        timer.dueTime = this.currentTime;
+      }
+    });
+  }
+
+  /**
+   * Jump the clock without running timers, e.g. to simulate a wall-clock change
+   * @param time - New value of `now()`
+   */
+  public setTime(time: number): void {
+    this.currentTime = time;
+  }
+
+  /**
+   * Number of pending timers
+   */
+  public pendingTimers(): number {
+    return this.timers.length;
+  }
+
+  private addTimer(callback: () => void, delay: number, interval: number | null): number {
+    const id = this.nextId++;
+    this.timers.push({
+      id,
+      callback,
+      dueTime: this.currentTime + Math.max(delay || 0, 0),
+      interval
+    });
+    return id;
+  }
+
+  private removeTimer(handle: TimerHandle): void {
+    this.timers = this.timers.filter(timer => timer.id !== handle);
+  }
+
+  private nextDueTimer(limit: number): VirtualTimer | null {
+    let next: VirtualTimer | null = null;
+    for (const timer of this.timers) {
+      // 同一时刻到期的定时器按创建顺序执行
+      if (timer.dueTime <= limit && (!next || timer.dueTime < next.dueTime ||
+          (timer.dueTime === next.dueTime && timer.id < next.id))) {
+        next = timer;
+      }
+    }
+    return next;
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Generate a random identifier (RFC 4122 v4 format when possible)
+ * @returns A new random id string
+ */
+export function generateId(): string {
+  const cryptoObj: Crypto | undefined = typeof crypto !== 'undefined' ? crypto : undefined;
+
+  if (cryptoObj && typeof cryptoObj.randomUUID === 'function') {
+    return cryptoObj.randomUUID();
+  }
+
+  const bytes = new Uint8Array(16);
+  if (cryptoObj && typeof cryptoObj.getRandomValues === 'function') {
+    cryptoObj.getRandomValues(bytes);
+  } else {
+    // 无 crypto 环境下退化为 Math.random
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = Math.floor(Math.random() * 256);
+    }
+  }
+
+  // 设置版本号 (4) 和变体位
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+
+  const hex: string[] = [];
+  for (let i = 0; i < bytes.length; i++) {
+    hex.push((bytes[i] + 0x100).toString(16).substring(1));
+  }
+
+  return [
+    hex.slice(0, 4).join(''),
+    hex.slice(4, 6).join(''),
+    hex.slice(6, 8).join(''),
+    hex.slice(8, 10).join(''),
+    hex.slice(10, 16).join('')
+  ].join('-');
+}
+
+/**
+ * Options for writing a first-party cookie
+ */
+export interface CookieOptions {
+  /** Cookie domain, e.g. `.example.com` (default: current host) */
+  domain?: string;
+  /** Cookie path (default: '/') */
+  path?: string;
+  /** Lifetime in seconds; omit for a browser-session cookie */
+  maxAge?: number;
+  /** SameSite attribute (default: 'Lax') */
+  sameSite?: 'Strict' | 'Lax' | 'None';
+  /** Only send the cookie over HTTPS (default: false) */
+  secure?: boolean;
+}
+
+/**
+ * Write a first-party cookie. No-op outside the browser.
+ */
+export function setCookie(name: string, value: string, options: CookieOptions = {}): void {
+  if (typeof document === 'undefined') return;
+
+  const parts = [`${encodeURIComponent(name)}=${encodeURIComponent(value)}`];
+  parts.push(`path=${options.path || '/'}`);
+  if (options.domain) {
+    parts.push(`domain=${options.domain}`);
+  }
+  if (typeof options.maxAge === 'number') {
+    parts.push(`max-age=${Math.floor(options.maxAge)}`);
+  }
+  parts.push(`samesite=${options.sameSite || 'Lax'}`);
+  if (options.secure) {
+    parts.push('secure');
+  }
+
+  document.cookie = parts.join('; ');
+}
+
+/**
+ * Read a cookie value by name. Returns null when missing or outside the browser.
+ */
+export function getCookie(name: string): string | null {
+  if (typeof document === 'undefined' || !document.cookie) return null;
+
+  const prefix = `${encodeURIComponent(name)}=`;
+  const entries = document.cookie.split(';');
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i].trim();
+    if (entry.indexOf(prefix) === 0) {
+      return decodeURIComponent(entry.substring(prefix.length));
+    }
+  }
+  return null;
+}
+
+/**
+ * Remove a cookie by expiring it immediately
+ */
+export function removeCookie(name: string, options: CookieOptions = {}): void {
+  setCookie(name, '', { ...options, maxAge: 0 });
+}
@@ -0,0 +1,99 @@
+import { SessionState, VirtualTime } from '../src';
+import { createLifecycle } from './helpers';
+
+// BroadcastChannel 消息在真实事件循环中投递
+function flush(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 20));
+}
+
+// 分段推进虚拟时间，让各标签页的状态广播及时送达
+async function advance(time: VirtualTime, ms: number): Promise<void> {
+  for (let elapsed = 0; elapsed < ms; elapsed += 5000) {
+    time.advance(Math.min(5000, ms - elapsed));
+    await flush();
+  }
+}
+
+describe('cross-tab coordination', () => {
+  let channel = 0;
+  const open: Array<ReturnType<typeof createLifecycle>> = [];
+
+  async function openTabs(config: object = {}) {
+    const time = new VirtualTime(Date.UTC(2024, 0, 1));
+    const crossTab = { channelName: `cross-tab-test-${++channel}` };
+
+    const a = createLifecycle({ crossTab, ...config }, time);
+    open.push(a);
+    time.advance(100);
+    await flush();
+
+    const b = createLifecycle({ crossTab, ...config }, time);
+    open.push(b);
+    await flush();
+    time.advance(100);
+    await flush();
+    return { time, a, b };
+  }
+
+  afterEach(async () => {
+    await Promise.all(open.splice(0).map(tab => tab.lifecycle.destroy()));
+  });
+
+  it('lets a second tab join the session silently', async () => {
+    const { a, b } = await openTabs();
+
+    expect(b.lifecycle.getSessionId()).toBe(a.lifecycle.getSessionId());
+    expect(b.payloads('session_start')).toHaveLength(0);
+  });
+
+  it('emits a single end when another tab ends the session while this one is paused', async () => {
+    const { time, a, b } = await openTabs({ resumePolicy: 600000 });
+    const sessionId = a.lifecycle.getSessionId();
+
+    a.environment.setVisible(false);
+    await flush();
+    time.advance(120000);
+    await flush();
+
+    expect(b.payloads('session_end')).toHaveLength(1);
+    expect(b.payloads('session_end')[0]).toMatchObject({ session_id: sessionId, reason: 'inactivity' });
+    expect(a.lifecycle.getState()).toBe(SessionState.INACTIVE);
+
+    a.environment.setVisible(true);
+    time.advance(700000);
+    await flush();
+
+    const ends = [...a.payloads('session_end'), ...b.payloads('session_end')];
+    expect(ends.filter(end => end.session_id === sessionId)).toHaveLength(1);
+    expect(a.payloads('session_start')).toHaveLength(2);
+    expect(a.payloads('session_start')[1].session_id).not.toBe(sessionId);
+  });
+
+  it('expires the pause of a hidden tab while other tabs are active', async () => {
+    const { time, a, b } = await openTabs({ heartbeatInterval: 30000 });
+
+    a.environment.setVisible(false);
+    b.environment.activity();
+    await advance(time, 30001);
+
+    expect(a.lifecycle.getState()).toBe(SessionState.INACTIVE);
+    expect(a.payloads('session_end')).toHaveLength(0);
+    expect(b.lifecycle.getState()).toBe(SessionState.ACTIVE);
+  });
+
+  it('splits the session once in the leader tab and moves every tab to the new session', async () => {
+    const { time, a, b } = await openTabs({ maxSessionDuration: 60000, inactivityTimeout: 600000 });
+    const sessionId = a.lifecycle.getSessionId();
+
+    await advance(time, 60000);
+    await advance(time, 30000);
+
+    const ends = [...a.payloads('session_end'), ...b.payloads('session_end')];
+    const starts = [...a.payloads('session_start'), ...b.payloads('session_start')].filter(start => start.type === 'rollover');
+    expect(ends).toHaveLength(1);
+    expect(ends[0]).toMatchObject({ session_id: sessionId, reason: 'max_duration' });
+    expect(starts).toHaveLength(1);
+    expect(a.lifecycle.getSessionId()).toBe(starts[0].session_id);
+    expect(b.lifecycle.getSessionId()).toBe(starts[0].session_id);
+  });
+});
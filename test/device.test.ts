@@ -0,0 +1,79 @@
+import { classifyUserAgent, detectDevice } from '../src';
+import { createLifecycle } from './helpers';
+
+const IPHONE = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+const ANDROID_PHONE = 'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36';
+const ANDROID_TABLET = 'Mozilla/5.0 (Linux; Android 13; SM-X700) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const IPAD = 'Mozilla/5.0 (iPad; CPU OS 12_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/12.1 Mobile/15E148 Safari/604.1';
+const MAC_SAFARI = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Safari/605.1.15';
+const WINDOWS_CHROME = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+const globals = globalThis as { navigator?: unknown };
+
+describe('device classification', () => {
+  it.each([
+    ['an iPhone', IPHONE, 0, 'mobile'],
+    ['an Android phone', ANDROID_PHONE, 5, 'mobile'],
+    ['an Android tablet', ANDROID_TABLET, 5, 'tablet'],
+    ['an iPad', IPAD, 5, 'tablet'],
+    ['an iPad with a desktop user agent', MAC_SAFARI, 5, 'tablet'],
+    ['a Mac', MAC_SAFARI, 0, 'desktop'],
+    ['a Windows PC', WINDOWS_CHROME, 0, 'desktop']
+  ])('classifies %s', (_name, userAgent, maxTouchPoints, expected) => {
+    expect(classifyUserAgent(userAgent, maxTouchPoints)).toBe(expected);
+  });
+
+  describe('detectDevice', () => {
+    afterEach(() => {
+      delete globals.navigator;
+    });
+
+    it('prefers Client Hints over the user agent', () => {
+      globals.navigator = { userAgent: WINDOWS_CHROME, maxTouchPoints: 5, userAgentData: { mobile: false, platform: 'Android' } };
+
+      expect(detectDevice()).toEqual({ device_class: 'tablet', source: 'client_hints', platform: 'Android', touch: true });
+    });
+
+    it('falls back to the user agent', () => {
+      globals.navigator = { userAgent: IPHONE, maxTouchPoints: 5 };
+
+      expect(detectDevice()).toMatchObject({ device_class: 'mobile', source: 'user_agent' });
+    });
+  });
+});
+
+describe('device profiles', () => {
+  const profiles = { mobile: { heartbeatInterval: 60000 } };
+
+  it('merges the profile of the detected class over the config', () => {
+    const { time, payloads } = createLifecycle({ heartbeatInterval: 30000, deviceClass: 'mobile', profiles });
+
+    time.advance(60000);
+
+    expect(payloads('session_life').map(data => data.total_duration)).toEqual([60000]);
+    expect(payloads('session_start')[0].device).toMatchObject({ device_class: 'mobile', source: 'config' });
+  });
+
+  it('keeps the config for other classes', () => {
+    const { time, payloads } = createLifecycle({ heartbeatInterval: 30000, deviceClass: 'desktop', profiles });
+
+    time.advance(60000);
+
+    expect(payloads('session_life').map(data => data.total_duration)).toEqual([30000, 60000]);
+  });
+
+  it('applies a profile chosen by a detector function', () => {
+    globals.navigator = { userAgent: ANDROID_TABLET, maxTouchPoints: 5 };
+    const { time, payloads } = createLifecycle({
+      heartbeatInterval: 30000,
+      deviceClass: detected => (detected.device_class === 'tablet' ? 'mobile' : null),
+      profiles
+    });
+    delete globals.navigator;
+
+    time.advance(60000);
+
+    expect(payloads('session_start')[0].device).toMatchObject({ device_class: 'mobile', source: 'detector' });
+    expect(payloads('session_life')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,127 @@
+import { TypedEventEmitter } from '../src/emitter';
+import { VirtualTime } from '../src';
+
+type Events = {
+  count: [number];
+  name: [string];
+};
+
+function deferred() {
+  let resolve: () => void = () => undefined;
+  const promise = new Promise<void>(done => { resolve = done; });
+  return { promise, resolve };
+}
+
+describe('TypedEventEmitter', () => {
+  it('removes a listener with the returned unsubscribe function', () => {
+    const emitter = new TypedEventEmitter<Events>();
+    const calls: number[] = [];
+    const unsubscribe = emitter.on('count', value => { calls.push(value); });
+
+    emitter.emit('count', 1);
+    unsubscribe();
+    emitter.emit('count', 2);
+
+    expect(calls).toEqual([1]);
+    expect(emitter.listenerCount('count')).toBe(0);
+  });
+
+  it('calls once listeners a single time', () => {
+    const emitter = new TypedEventEmitter<Events>();
+    const listener = jest.fn();
+    emitter.once('count', listener);
+
+    emitter.emit('count', 1);
+    emitter.emit('count', 2);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(1);
+  });
+
+  it('removes one listener, or all listeners of an event, with off', () => {
+    const emitter = new TypedEventEmitter<Events>();
+    const first = jest.fn();
+    const second = jest.fn();
+    emitter.on('count', first);
+    emitter.on('count', second);
+
+    emitter.off('count', first);
+    emitter.emit('count', 1);
+    emitter.off('count');
+    emitter.emit('count', 2);
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it('passes every event to wildcard listeners after its own listeners', () => {
+    const emitter = new TypedEventEmitter<Events>();
+    const calls: string[] = [];
+    emitter.on('*', (event, value) => { calls.push(`*:${event}:${value}`); });
+    emitter.on('count', value => { calls.push(`count:${value}`); });
+
+    emitter.emit('count', 1);
+    emitter.emit('name', 'a');
+
+    expect(calls).toEqual(['count:1', '*:count:1', '*:name:a']);
+  });
+
+  it('keeps calling listeners after one throws and reports the error', () => {
+    const onError = jest.fn();
+    const emitter = new TypedEventEmitter<Events>({ onError });
+    const error = new Error('boom');
+    const after = jest.fn();
+    emitter.on('count', () => { throw error; });
+    emitter.on('count', after);
+
+    emitter.emit('count', 1);
+
+    expect(after).toHaveBeenCalledWith(1);
+    expect(onError).toHaveBeenCalledWith(error, 'count', [1]);
+  });
+
+  it('starts all async listeners at once in parallel mode', () => {
+    const emitter = new TypedEventEmitter<Events>();
+    const first = deferred();
+    const second = jest.fn();
+    emitter.on('count', () => first.promise);
+    emitter.on('count', second);
+
+    emitter.emit('count', 1);
+
+    expect(second).toHaveBeenCalled();
+    first.resolve();
+  });
+
+  it('waits for each async listener before the next in sequential mode', async () => {
+    const emitter = new TypedEventEmitter<Events>({ mode: 'sequential' });
+    const first = deferred();
+    const calls: string[] = [];
+    emitter.on('count', () => { calls.push('first'); return first.promise; });
+    emitter.on('count', () => { calls.push('second'); });
+
+    const done = emitter.emit('count', 1);
+    expect(calls).toEqual(['first']);
+
+    first.resolve();
+    await done;
+    expect(calls).toEqual(['first', 'second']);
+  });
+
+  it('abandons listeners that exceed the timeout and reports them', async () => {
+    const time = new VirtualTime();
+    const onError = jest.fn();
+    const emitter = new TypedEventEmitter<Events>({ timeout: 1000, scheduler: time, onError });
+    emitter.on('count', () => new Promise<void>(() => undefined));
+
+    const done = emitter.emit('count', 1);
+    time.advance(999);
+    expect(onError).not.toHaveBeenCalled();
+
+    time.advance(1);
+    await done;
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(String(onError.mock.calls[0][0])).toContain('timed out after 1000ms');
+    expect(await emitter.whenIdle(0)).toBe(true);
+  });
+});
@@ -0,0 +1,45 @@
+import { createLifecycle } from './helpers';
+
+describe('engagement breakdown', () => {
+  const config = { heartbeatInterval: 30000, inactivityTimeout: 120000, idleThreshold: 30000 };
+
+  it('splits heartbeats into active and idle time by the idle threshold', () => {
+    const { time, payloads } = createLifecycle(config);
+
+    time.advance(60000);
+
+    expect(payloads('session_life')).toEqual([
+      expect.objectContaining({ active_ms: 30000, idle_ms: 0, hidden_ms: 0, heartbeat_count: 1 }),
+      expect.objectContaining({ active_ms: 30000, idle_ms: 30000, hidden_ms: 0, heartbeat_count: 2 })
+    ]);
+  });
+
+  it('reports the time after the last activity of an inactivity end as trailing_idle_ms', () => {
+    const { time, environment, payloads } = createLifecycle(config);
+
+    time.advance(60000);
+    environment.activity();
+    time.advance(120000);
+
+    const end = payloads('session_end')[0];
+    expect(end).toMatchObject({ reason: 'inactivity', total_duration: 180000, trailing_idle_ms: 120000 });
+    expect(end).toMatchObject({ active_ms: 30000, idle_ms: 30000 });
+    expect(end.active_ms + end.idle_ms + end.trailing_idle_ms).toBe(end.total_duration);
+  });
+
+  it('counts paused time as hidden_ms', async () => {
+    const { time, environment, payloads } = createLifecycle(config);
+
+    time.advance(10000);
+    environment.setVisible(false);
+    time.advance(20000);
+    environment.setVisible(true);
+    time.advance(10000);
+    await environment.unload('pagehide');
+
+    const end = payloads('session_end')[0];
+    expect(end).toMatchObject({ total_duration: 40000, active_ms: 20000, idle_ms: 0, hidden_ms: 20000 });
+    expect(end).toMatchObject({ pause_count: 1, trailing_idle_ms: 0 });
+    expect(end.active_ms + end.idle_ms + end.hidden_ms).toBe(end.total_duration);
+  });
+});
@@ -0,0 +1,57 @@
+import { VirtualTime } from '../src';
+import { createLifecycle } from './helpers';
+
+describe('heartbeat schedule', () => {
+  it('steps from 10s to 30s to 60s heartbeats by session age', () => {
+    const { time, payloads } = createLifecycle({
+      inactivityTimeout: 3600000,
+      heartbeatSchedule: {
+        steps: [
+          { interval: 10000, until: 60000 },
+          { interval: 30000, until: 600000 },
+          { interval: 60000 }
+        ]
+      }
+    });
+
+    time.advance(720000);
+
+    const life = payloads('session_life');
+    const at = (step: number) => life.filter(data => data.step === step).map(data => data.total_duration);
+    expect(at(0)).toEqual([10000, 20000, 30000, 40000, 50000, 60000]);
+    expect(at(1)).toEqual(Array.from({ length: 18 }, (_, i) => 90000 + i * 30000));
+    expect(at(2)).toEqual([660000, 720000]);
+  });
+
+  it('fires aligned heartbeats on wall-clock multiples of the interval', () => {
+    const base = Date.UTC(2024, 0, 1);
+    const { time, payloads } = createLifecycle({
+      heartbeatSchedule: { steps: [{ interval: 30000 }], alignToClock: true }
+    }, new VirtualTime(base + 7000));
+
+    time.advance(60000);
+
+    const life = payloads('session_life');
+    expect(life.map(data => data.timestamp)).toEqual([base + 30000, base + 60000]);
+    expect(life[0]).toMatchObject({ duration: 23000, total_duration: 23000 });
+  });
+
+  it('skips heartbeats without activity and covers them in the next one', () => {
+    const { time, environment, payloads } = createLifecycle({
+      inactivityTimeout: 3600000,
+      heartbeatSchedule: { steps: [{ interval: 30000 }], skipUnchanged: true }
+    });
+
+    time.advance(40000);
+    expect(payloads('session_life')).toHaveLength(0);
+
+    environment.activity();
+    time.advance(20000);
+    // 60s 的心跳之后没有活动，90s 的心跳被跳过
+    time.advance(30000);
+
+    const life = payloads('session_life');
+    expect(life).toHaveLength(1);
+    expect(life[0]).toMatchObject({ duration: 60000, total_duration: 60000, heartbeat_count: 1 });
+  });
+});
@@ -0,0 +1,88 @@
+import {
+  EnvironmentAdapter,
+  EnvironmentSignals,
+  SessionEventMap,
+  SessionEventName,
+  SessionLifecycle,
+  SessionLifecycleConfig,
+  VirtualTime
+} from '../src';
+
+/**
+ * Environment driven by the test: visibility, activity and unload are set by hand
+ */
+export class FakeEnvironment implements EnvironmentAdapter {
+  public readonly name = 'fake';
+  public visible = true;
+  public online = true;
+  private signals: EnvironmentSignals | null = null;
+
+  public isVisible(): boolean {
+    return this.visible;
+  }
+
+  public isOnline(): boolean {
+    return this.online;
+  }
+
+  public attach(signals: EnvironmentSignals): void {
+    this.signals = signals;
+  }
+
+  public detach(): void {
+    this.signals = null;
+  }
+
+  public get attached(): boolean {
+    return this.signals !== null;
+  }
+
+  public setVisible(visible: boolean, source = 'visibilitychange'): void {
+    this.visible = visible;
+    if (this.signals) this.signals.visibilityChange(visible, source);
+  }
+
+  public activity(source = 'click'): void {
+    if (this.signals) this.signals.activity(source);
+  }
+
+  public unload(source = 'beforeunload'): Promise<void> {
+    return this.signals ? this.signals.unload(source) : Promise.resolve();
+  }
+
+  public setOnline(online: boolean): void {
+    this.online = online;
+    if (this.signals) this.signals.networkChange(online);
+  }
+}
+
+export interface RecordedEvent {
+  event: SessionEventName;
+  data: unknown;
+}
+
+/**
+ * Lifecycle on virtual time with a fake environment, recording every event
+ */
+export function createLifecycle(config: SessionLifecycleConfig = {}, time = new VirtualTime(Date.UTC(2024, 0, 1))) {
+  const environment = new FakeEnvironment();
+  const lifecycle = new SessionLifecycle({ clock: time, scheduler: time, environment, ...config });
+  const events: RecordedEvent[] = [];
+  lifecycle.getMethods().on('*', (event: SessionEventName, ...args: unknown[]) => {
+    events.push({ event, data: args[0] });
+  });
+  // 初始化在 setTimeout(0) 中执行
+  time.advance(0);
+
+  return {
+    time,
+    environment,
+    lifecycle,
+    events,
+    /** Payloads of one event, in order */
+    payloads: <K extends SessionEventName>(event: K) =>
+      events.filter(e => e.event === event).map(e => e.data as SessionEventMap[K][0]),
+    /** Names of the recorded events, without state changes */
+    names: () => events.filter(e => e.event !== 'state_change').map(e => e.event)
+  };
+}
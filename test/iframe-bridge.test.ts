@@ -0,0 +1,99 @@
+import { IframeBridgeHost, IframeParentMessage, IFRAME_BRIDGE_PROTOCOL, IFRAME_BRIDGE_VERSION } from '../src/iframe-bridge';
+import { SessionEndData, SessionState } from '../src';
+
+/**
+ * Frame window recording what the parent posts to it
+ */
+function createFrameWindow() {
+  const posted: Array<{ message: IframeParentMessage; targetOrigin: string }> = [];
+  return {
+    posted,
+    postMessage: (message: unknown, targetOrigin: string) => {
+      posted.push({ message: message as IframeParentMessage, targetOrigin });
+    }
+  };
+}
+
+const globals = globalThis as { window?: unknown; document?: unknown; location?: unknown };
+
+describe('IframeBridgeHost', () => {
+  let dispatch: (event: Partial<MessageEvent>) => void;
+  let embedded: ReturnType<typeof createFrameWindow>[];
+
+  beforeEach(() => {
+    embedded = [];
+    globals.window = {
+      addEventListener: (_type: string, listener: (event: MessageEvent) => void) => {
+        dispatch = event => listener(event as MessageEvent);
+      },
+      removeEventListener: () => undefined
+    };
+    globals.document = {
+      querySelectorAll: () => embedded.map(contentWindow => ({ contentWindow }))
+    };
+    globals.location = { origin: 'https://app.example.com' };
+  });
+
+  afterEach(() => {
+    delete globals.window;
+    delete globals.document;
+    delete globals.location;
+  });
+
+  function createHost(allowedOrigins: string[] = []) {
+    const onActivity = jest.fn();
+    const host = new IframeBridgeHost({ allowedOrigins }, {
+      onActivity,
+      onVisibility: () => undefined,
+      getSnapshot: () => ({ session_id: 'session-1', state: SessionState.ACTIVE })
+    });
+    host.start();
+    return { host, onActivity };
+  }
+
+  function send(source: unknown, origin: string, message: object) {
+    dispatch({
+      source: source as MessageEventSource,
+      origin,
+      data: { protocol: IFRAME_BRIDGE_PROTOCOL, version: IFRAME_BRIDGE_VERSION, ...message }
+    });
+  }
+
+  it('ignores messages from windows that are not embedded frames', () => {
+    const { onActivity } = createHost();
+    const frame = createFrameWindow();
+    const popup = createFrameWindow();
+    embedded.push(frame);
+
+    send(popup, 'https://app.example.com', { type: 'activity', source: 'click' });
+    send(frame, 'https://app.example.com', { type: 'activity', source: 'click' });
+
+    expect(onActivity).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not share the session id with frames that did not subscribe', () => {
+    const { host } = createHost();
+    const frame = createFrameWindow();
+    embedded.push(frame);
+
+    send(frame, 'https://app.example.com', { type: 'hello', events: false });
+    host.publish({ event: 'session_end', data: { session_id: 'session-1' } as SessionEndData });
+
+    expect(frame.posted.map(post => post.message.type)).toEqual(['welcome']);
+    expect(frame.posted[0].message).toMatchObject({ session_id: null, state: SessionState.ACTIVE });
+  });
+
+  it('never posts the session to sandboxed frames', () => {
+    const { host, onActivity } = createHost(['null']);
+    const frame = createFrameWindow();
+    embedded.push(frame);
+
+    send(frame, 'null', { type: 'hello', events: true });
+    send(frame, 'null', { type: 'activity', source: 'click' });
+    host.publish({ event: 'session_end', data: { session_id: 'session-1' } as SessionEndData });
+
+    expect(onActivity).toHaveBeenCalledTimes(1);
+    expect(frame.posted.map(post => post.message.type)).toEqual(['welcome']);
+    expect(frame.posted[0]).toMatchObject({ targetOrigin: '*', message: { session_id: null } });
+  });
+});
@@ -0,0 +1,265 @@
+import { ManualActivityDetector, SessionState, VirtualTime, createMemoryStorageAdapter } from '../src';
+import { createLifecycle } from './helpers';
+
+describe('initialization', () => {
+  it('starts an init session once the first listener is registered', () => {
+    const { lifecycle, payloads } = createLifecycle();
+
+    expect(lifecycle.getState()).toBe(SessionState.ACTIVE);
+    expect(payloads('session_start')).toHaveLength(1);
+    expect(payloads('session_start')[0]).toMatchObject({ type: 'init', reason: 'init' });
+  });
+});
+
+describe('inactivity timeout', () => {
+  it('ends the session inactivityTimeout after the last activity', () => {
+    const { time, environment, lifecycle, payloads } = createLifecycle({ inactivityTimeout: 120000 });
+
+    time.advance(60000);
+    environment.activity();
+    time.advance(119999);
+    expect(payloads('session_end')).toHaveLength(0);
+
+    time.advance(1);
+    expect(lifecycle.getState()).toBe(SessionState.INACTIVE);
+    expect(payloads('session_end')).toHaveLength(1);
+    expect(payloads('session_end')[0]).toMatchObject({ reason: 'inactivity', total_duration: 180000 });
+  });
+
+  it('starts a new session on activity after the timeout', () => {
+    const { time, environment, payloads } = createLifecycle({ inactivityTimeout: 120000 });
+    const first = payloads('session_start')[0];
+
+    time.advance(200000);
+    environment.activity();
+
+    const second = payloads('session_start')[1];
+    expect(second).toMatchObject({ type: 'active', reason: 'activity' });
+    expect(second.session_id).not.toBe(first.session_id);
+  });
+});
+
+describe('heartbeat', () => {
+  it('fires session_life every heartbeatInterval while active', () => {
+    const { time, payloads } = createLifecycle({ heartbeatInterval: 30000 });
+
+    time.advance(90000);
+
+    const life = payloads('session_life');
+    expect(life).toHaveLength(3);
+    expect(life.map(data => data.total_duration)).toEqual([30000, 60000, 90000]);
+  });
+
+  it('stops while the session is paused', () => {
+    const { time, environment, payloads } = createLifecycle({ heartbeatInterval: 30000 });
+
+    time.advance(10000);
+    environment.setVisible(false);
+    time.advance(25000);
+
+    expect(payloads('session_life')).toHaveLength(0);
+  });
+});
+
+describe('pause and resume', () => {
+  it('resumes the same session after a pause within the grace period', () => {
+    const { time, environment, payloads, names } = createLifecycle({ heartbeatInterval: 30000 });
+    const sessionId = payloads('session_start')[0].session_id;
+
+    time.advance(5000);
+    environment.setVisible(false);
+    time.advance(20000);
+    environment.setVisible(true);
+
+    expect(names()).toEqual(['session_start', 'session_pause', 'session_resume']);
+    expect(payloads('session_resume')[0]).toMatchObject({ session_id: sessionId, reason: 'visible' });
+  });
+
+  it('ends the paused session once the grace period expires and starts a new one on return', () => {
+    const { time, environment, lifecycle, payloads, names } = createLifecycle({ heartbeatInterval: 30000 });
+
+    time.advance(5000);
+    environment.setVisible(false);
+    time.advance(30001);
+    expect(lifecycle.getState()).toBe(SessionState.INACTIVE);
+
+    environment.setVisible(true);
+
+    expect(names()).toEqual(['session_start', 'session_pause', 'session_end', 'session_start']);
+    expect(payloads('session_end')[0]).toMatchObject({ reason: 'hidden' });
+    expect(payloads('session_start')[1].session_id).not.toBe(payloads('session_start')[0].session_id);
+  });
+
+  it('applies a numeric resumePolicy as the grace period', () => {
+    const { time, environment, names } = createLifecycle({ resumePolicy: 60000 });
+
+    environment.setVisible(false);
+    time.advance(45000);
+    environment.setVisible(true);
+
+    expect(names()).toEqual(['session_start', 'session_pause', 'session_resume']);
+  });
+
+  it.each([
+    ['resume', 'resume' as const],
+    ['a function', () => true]
+  ])('ends a session paused longer than maxPauseDuration with a %s policy', (_name, resumePolicy) => {
+    const { time, environment, lifecycle, payloads, names } = createLifecycle({ resumePolicy, maxPauseDuration: 600000 });
+
+    time.advance(5000);
+    environment.setVisible(false);
+    time.advance(599999);
+    expect(lifecycle.getState()).toBe(SessionState.PAUSED);
+
+    time.advance(1);
+    expect(lifecycle.getState()).toBe(SessionState.INACTIVE);
+    expect(payloads('session_end')[0]).toMatchObject({ reason: 'hidden', total_duration: 5000 });
+
+    environment.setVisible(true);
+    expect(names()).toEqual(['session_start', 'session_pause', 'session_end', 'session_start']);
+  });
+});
+
+describe('identify', () => {
+  it.each([false, true])('never resumes a session paused before the identity changed (legacyPauseEvents: %s)', async legacyPauseEvents => {
+    const { time, environment, lifecycle, payloads, names } = createLifecycle({ legacyPauseEvents, heartbeatInterval: 30000 });
+    const sessionId = payloads('session_start')[0].session_id;
+
+    environment.setVisible(false);
+    time.advance(5000);
+    await lifecycle.identify('user-42');
+    environment.setVisible(true);
+
+    expect(names().filter(name => name === 'session_end')).toHaveLength(1);
+    expect(names()).not.toContain('session_resume');
+    expect(payloads('session_start')).toHaveLength(2);
+    expect(payloads('session_start')[1].session_id).not.toBe(sessionId);
+    expect(payloads('session_start')[1].user_id).toBe('user-42');
+  });
+});
+
+describe('maxPauseDuration', () => {
+  const day = 24 * 60 * 60 * 1000;
+
+  it.each([0, Infinity])('lets a resume policy keep the session through any pause when set to %s', maxPauseDuration => {
+    const { time, environment, names } = createLifecycle({ resumePolicy: 'resume', maxPauseDuration });
+
+    environment.setVisible(false);
+    time.advance(100 * day);
+    environment.setVisible(true);
+
+    expect(names()).toEqual(['session_start', 'session_pause', 'session_resume']);
+  });
+
+  it('waits past the setTimeout limit for a long grace period', () => {
+    const { time, environment, lifecycle } = createLifecycle({ resumePolicy: 40 * day, maxPauseDuration: Infinity });
+
+    environment.setVisible(false);
+    time.advance(30 * day);
+    expect(lifecycle.getState()).toBe(SessionState.PAUSED);
+
+    time.advance(10 * day);
+    expect(lifecycle.getState()).toBe(SessionState.INACTIVE);
+  });
+});
+
+describe('activity detectors', () => {
+  it('keeps the session alive while busy and counts the timeout from the release', () => {
+    const { time, lifecycle, payloads } = createLifecycle({ inactivityTimeout: 60000 });
+    const call = new ManualActivityDetector('video-call');
+    lifecycle.addActivityDetector(call);
+
+    call.setBusy(true);
+    time.advance(150000);
+    call.setBusy(false);
+    time.advance(59999);
+    expect(payloads('session_end')).toHaveLength(0);
+
+    time.advance(1);
+    expect(payloads('session_end')[0]).toMatchObject({ reason: 'inactivity' });
+  });
+
+  it('does not start a session when a detector is released after the session ended', () => {
+    const { time, lifecycle, names } = createLifecycle({ inactivityTimeout: 60000 });
+    const call = new ManualActivityDetector('video-call');
+    lifecycle.addActivityDetector(call);
+
+    call.setBusy(true);
+    lifecycle.getMethods().end();
+    call.setBusy(false);
+
+    expect(lifecycle.getState()).toBe(SessionState.INACTIVE);
+    expect(names()).toEqual(['session_start', 'session_end']);
+    time.advance(60000);
+    expect(names()).toEqual(['session_start', 'session_end']);
+  });
+});
+
+describe('unload', () => {
+  it('ends the session with the unload source as reason', async () => {
+    const { time, environment, lifecycle, payloads } = createLifecycle();
+
+    time.advance(10000);
+    await environment.unload('beforeunload');
+
+    expect(lifecycle.getState()).toBe(SessionState.INACTIVE);
+    expect(payloads('session_end')).toHaveLength(1);
+    expect(payloads('session_end')[0]).toMatchObject({ reason: 'beforeunload', total_duration: 10000 });
+  });
+
+  it('waits for async end handlers before resolving', async () => {
+    const { time, environment, lifecycle } = createLifecycle();
+    let settled = false;
+    lifecycle.getMethods().on_session_end(() => Promise.resolve().then(() => { settled = true; }));
+
+    time.advance(1000);
+    await environment.unload('pagehide');
+
+    expect(settled).toBe(true);
+  });
+
+  it('does not end an already ended session again', async () => {
+    const { time, environment, payloads } = createLifecycle({ inactivityTimeout: 60000 });
+
+    time.advance(60000);
+    await environment.unload('beforeunload');
+
+    expect(payloads('session_end')).toHaveLength(1);
+  });
+});
+
+describe('destroy', () => {
+  it('ends the session, detaches the environment and leaves no timers', async () => {
+    const { time, environment, lifecycle, payloads } = createLifecycle();
+
+    time.advance(1000);
+    await lifecycle.destroy();
+
+    expect(payloads('session_end')[0]).toMatchObject({ reason: 'destroy' });
+    expect(environment.attached).toBe(false);
+    expect(time.pendingTimers()).toBe(0);
+  });
+});
+
+describe('persistence', () => {
+  it('marks unload ends provisional when the next page load may continue the session', async () => {
+    const storage = createMemoryStorageAdapter();
+    const first = createLifecycle({ persistence: { storage } });
+    const sessionId = first.payloads('session_start')[0].session_id;
+
+    first.time.advance(10000);
+    await first.environment.unload('beforeunload');
+    expect(first.payloads('session_end')[0]).toMatchObject({ session_id: sessionId, provisional: true });
+
+    const second = createLifecycle({ persistence: { storage } }, new VirtualTime(first.time.now() + 1000));
+    expect(second.payloads('session_start')[0]).toMatchObject({ type: 'resume', session_id: sessionId });
+  });
+
+  it('marks inactivity ends final', () => {
+    const { time, payloads } = createLifecycle({ inactivityTimeout: 60000, persistence: { storage: 'memory' } });
+
+    time.advance(60000);
+
+    expect(payloads('session_end')[0]).toMatchObject({ reason: 'inactivity', provisional: false });
+  });
+});
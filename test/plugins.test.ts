@@ -0,0 +1,61 @@
+import { SessionStartData } from '../src';
+import { createLifecycle } from './helpers';
+
+describe('plugins', () => {
+  it('enriches payloads and vetoes events in registration order', () => {
+    const onSessionLife = jest.fn(() => false as const);
+    const { time, payloads } = createLifecycle({
+      plugins: [
+        { name: 'tenant', onSessionStart: data => ({ ...data, tenant: 'acme' }) },
+        { name: 'quiet', onSessionLife }
+      ]
+    });
+
+    time.advance(60000);
+
+    expect(payloads('session_start')[0]).toMatchObject({ tenant: 'acme' });
+    expect(payloads('session_life')).toHaveLength(0);
+    expect(onSessionLife).toHaveBeenCalled();
+  });
+
+  it('reports throwing plugin hooks to onError and keeps the payload', () => {
+    const failure = new Error('plugin failed');
+    const onError = jest.fn();
+    const { lifecycle, payloads } = createLifecycle({
+      onError,
+      plugins: [
+        {
+          name: 'broken',
+          setup: () => { throw failure; },
+          onSessionStart: () => { throw failure; }
+        },
+        { name: 'tenant', onSessionStart: data => ({ ...data, tenant: 'acme' }) }
+      ]
+    });
+
+    const start = payloads('session_start')[0];
+    expect(start).toMatchObject({ tenant: 'acme' });
+    expect(onError).toHaveBeenCalledWith(failure, 'plugin_setup', null, 'broken');
+    expect(onError).toHaveBeenCalledWith(failure, 'session_start', expect.objectContaining({ session_id: start.session_id }), 'broken');
+
+    const remove = lifecycle.use({ name: 'fragile', teardown: () => { throw failure; } });
+    remove();
+
+    expect(onError).toHaveBeenCalledWith(failure, 'plugin_teardown', null, 'fragile');
+    expect(onError).toHaveBeenCalledTimes(3);
+  });
+
+  it('logs plugin errors without an onError hook', () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    try {
+      const { payloads } = createLifecycle({
+        plugins: [{ name: 'broken', onSessionStart: (): SessionStartData => { throw new Error('plugin failed'); } }]
+      });
+
+      expect(payloads('session_start')).toHaveLength(1);
+      expect(consoleError).toHaveBeenCalledWith('Error in plugin broken:', expect.any(Error));
+    } finally {
+      consoleError.mockRestore();
+    }
+  });
+});
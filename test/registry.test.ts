@@ -0,0 +1,62 @@
+import {
+  SessionState,
+  VirtualTime,
+  createSessionLifecycle,
+  destroySessionLifecycle,
+  getSessionLifecycle,
+  getSessionLifecycleNames
+} from '../src';
+import { FakeEnvironment } from './helpers';
+
+describe('instance registry', () => {
+  const time = new VirtualTime(Date.UTC(2024, 0, 1));
+
+  function create(name: string, environment = new FakeEnvironment()) {
+    return createSessionLifecycle({ name, clock: time, scheduler: time, environment });
+  }
+
+  afterEach(async () => {
+    await Promise.all(getSessionLifecycleNames().map(name => destroySessionLifecycle(name)));
+  });
+
+  it('keeps instances with different names side by side', async () => {
+    const a = await create('a');
+    const b = await create('b');
+    a.on_session_start(() => undefined);
+    b.on_session_start(() => undefined);
+    time.advance(0);
+
+    expect(getSessionLifecycleNames().sort()).toEqual(['a', 'b']);
+    expect(getSessionLifecycle('a')).not.toBe(getSessionLifecycle('b'));
+    expect(getSessionLifecycle('a')!.getState()).toBe(SessionState.ACTIVE);
+    expect(getSessionLifecycle('b')!.getState()).toBe(SessionState.ACTIVE);
+    expect(getSessionLifecycle('a')!.getSessionId()).not.toBe(getSessionLifecycle('b')!.getSessionId());
+  });
+
+  it('replaces an instance created again under the same name', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const environment = new FakeEnvironment();
+    const first = await create('a', environment);
+    first.on_session_start(() => undefined);
+    time.advance(0);
+    const previous = getSessionLifecycle('a');
+
+    await create('a');
+
+    expect(getSessionLifecycle('a')).not.toBe(previous);
+    expect(environment.attached).toBe(false);
+    expect(getSessionLifecycleNames()).toEqual(['a']);
+  });
+
+  it('destroys and unregisters an instance by name', async () => {
+    const environment = new FakeEnvironment();
+    const a = await create('a', environment);
+    a.on_session_start(() => undefined);
+    time.advance(0);
+
+    expect(await destroySessionLifecycle('a')).toBe(true);
+    expect(getSessionLifecycle('a')).toBeUndefined();
+    expect(environment.attached).toBe(false);
+    expect(await destroySessionLifecycle('a')).toBe(false);
+  });
+});
@@ -0,0 +1,104 @@
+import { EventReporter, VirtualTime } from '../src';
+
+type Sent = { via: 'fetch' | 'beacon'; seqs: number[]; bytes: number };
+
+describe('EventReporter.flushOnUnload', () => {
+  const originalNavigator = Object.getOwnPropertyDescriptor(globalThis, 'navigator');
+  let sent: Sent[];
+  let beaconAccepts: boolean;
+  let fetchResult: () => Promise<{ ok: boolean; status: number }>;
+
+  function record(via: Sent['via'], body: string): void {
+    const parsed = JSON.parse(body);
+    sent.push({ via, seqs: parsed.events.map((e: { data: { seq: number } }) => e.data.seq), bytes: Buffer.byteLength(body) });
+  }
+
+  function createReporter(batchSize = 20): EventReporter {
+    const time = new VirtualTime(Date.UTC(2024, 0, 1));
+    return new EventReporter({ endpoint: 'https://collector.test/events', batchSize, offlineQueue: false }, undefined, time, time);
+  }
+
+  beforeEach(() => {
+    sent = [];
+    beaconAccepts = true;
+    fetchResult = () => new Promise(() => undefined); // 默认一直挂起
+    Object.defineProperty(globalThis, 'navigator', {
+      configurable: true,
+      value: {
+        onLine: true,
+        sendBeacon: (_url: string, blob: Blob) => {
+          if (!beaconAccepts) return false;
+          // Blob 内容需异步读取
+          (blob as Blob & { text(): Promise<string> }).text().then(body => record('beacon', body));
+          return true;
+        }
+      }
+    });
+    (globalThis as { fetch?: unknown }).fetch = (_url: string, init: { body: string }) => {
+      record('fetch', init.body);
+      return fetchResult();
+    };
+  });
+
+  afterEach(() => {
+    if (originalNavigator) {
+      Object.defineProperty(globalThis, 'navigator', originalNavigator);
+    } else {
+      delete (globalThis as { navigator?: unknown }).navigator;
+    }
+    delete (globalThis as { fetch?: unknown }).fetch;
+  });
+
+  const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  it('does not send the in-flight batch again', async () => {
+    const reporter = createReporter(2);
+    reporter.enqueue({ event: 'session_life', data: { seq: 1 } });
+    reporter.enqueue({ event: 'session_life', data: { seq: 2 } });
+    reporter.enqueue({ event: 'session_life', data: { seq: 3 } });
+
+    reporter.flushOnUnload();
+    reporter.flushOnUnload();
+    await flushPromises();
+
+    expect(sent).toEqual([
+      expect.objectContaining({ via: 'fetch', seqs: [1, 2] }),
+      expect.objectContaining({ via: 'beacon', seqs: [3] })
+    ]);
+  });
+
+  it('splits large queues into beacons below 64 KB', async () => {
+    const reporter = createReporter(1000);
+    const padding = 'x'.repeat(5000);
+    for (let seq = 0; seq < 40; seq++) {
+      reporter.enqueue({ event: 'session_life', data: { seq, padding } });
+    }
+
+    reporter.flushOnUnload();
+    await flushPromises();
+
+    expect(sent.length).toBeGreaterThan(1);
+    sent.forEach(request => expect(request.bytes).toBeLessThan(64 * 1024));
+    expect(sent.reduce<number[]>((all, request) => all.concat(request.seqs), [])).toEqual(
+      Array.from({ length: 40 }, (_, seq) => seq)
+    );
+  });
+
+  it('keeps events in the offline queue when the keepalive fallback fails', async () => {
+    const reporter = createReporter();
+    beaconAccepts = false;
+    fetchResult = () => Promise.reject(new Error('network down'));
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    reporter.enqueue({ event: 'session_end', data: { seq: 7 } });
+    reporter.flushOnUnload();
+    await flushPromises();
+
+    fetchResult = () => Promise.resolve({ ok: true, status: 200 });
+    await reporter.replayOfflineQueue();
+    await flushPromises();
+
+    expect(sent.map(request => request.seqs)).toEqual([[7], [7]]);
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,65 @@
+import { SessionSamplingPlugin, SessionState } from '../src';
+import { createLifecycle } from './helpers';
+
+const globals = globalThis as { window?: unknown };
+
+/**
+ * Minimal window with a history API that updates location.pathname
+ */
+function installWindow() {
+  const location = { pathname: '/', search: '', hash: '' };
+  const pushState = (_data: unknown, _unused: string, url?: string | URL | null) => {
+    if (url) location.pathname = String(url);
+  };
+  const history: Pick<History, 'pushState' | 'replaceState'> = { pushState, replaceState: pushState };
+  globals.window = {
+    location,
+    history,
+    addEventListener: () => undefined,
+    removeEventListener: () => undefined
+  };
+  return { history };
+}
+
+describe('route tracking', () => {
+  let win: ReturnType<typeof installWindow>;
+
+  beforeEach(() => {
+    win = installWindow();
+  });
+
+  afterEach(() => {
+    delete globals.window;
+  });
+
+  it('ignores navigation after destroy even when the history wrapper stays in place', async () => {
+    const { time, lifecycle, payloads } = createLifecycle({ routeTracking: true });
+    // 其他库在本包装之上再次包装，destroy 无法还原 pushState
+    const wrapped = win.history.pushState;
+    win.history.pushState = function (this: History, ...args: Parameters<History['pushState']>) {
+      return wrapped.apply(this, args);
+    };
+
+    win.history.pushState(null, '', '/a');
+    expect(payloads('route_change')).toHaveLength(1);
+
+    await lifecycle.destroy();
+    win.history.pushState(null, '', '/b');
+
+    expect(payloads('route_change')).toHaveLength(1);
+    expect(payloads('session_start')).toHaveLength(1);
+    expect(lifecycle.getState()).toBe(SessionState.INACTIVE);
+    expect(time.pendingTimers()).toBe(0);
+  });
+
+  it('drops route changes of sessions sampled out by a plugin', () => {
+    const { payloads } = createLifecycle({
+      routeTracking: true,
+      plugins: [new SessionSamplingPlugin({ rate: 0 })]
+    });
+
+    win.history.pushState(null, '', '/a');
+
+    expect(payloads('route_change')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,86 @@
+import { EnvironmentSignals, SharedDomEnvironment, VirtualTime, createSessionLifecycle, destroySessionLifecycle } from '../src';
+
+const globals = globalThis as { window?: unknown; document?: unknown };
+
+function createSignals() {
+  const activity: string[] = [];
+  const signals: EnvironmentSignals = {
+    visibilityChange: () => undefined,
+    activity: source => { activity.push(source); },
+    unload: () => Promise.resolve(),
+    networkChange: () => undefined
+  };
+  return { signals, activity };
+}
+
+describe('SharedDomEnvironment', () => {
+  let document: EventTarget & { hidden: boolean };
+
+  beforeEach(() => {
+    document = Object.assign(new EventTarget(), { hidden: false });
+    globals.window = new EventTarget();
+    globals.document = document;
+  });
+
+  afterEach(() => {
+    delete globals.window;
+    delete globals.document;
+  });
+
+  it('shares one set of listeners and removes it with the last subscriber', () => {
+    const first = createSignals();
+    const second = createSignals();
+    const a = new SharedDomEnvironment({ activityThrottle: 0 });
+    const b = new SharedDomEnvironment({ activityThrottle: 0 });
+
+    a.attach(first.signals);
+    b.attach(second.signals);
+    expect(SharedDomEnvironment.hubCount()).toBe(1);
+
+    document.dispatchEvent(new Event('click'));
+    expect(first.activity).toEqual(['click']);
+    expect(second.activity).toEqual(['click']);
+
+    a.detach();
+    document.dispatchEvent(new Event('keydown'));
+    expect(SharedDomEnvironment.hubCount()).toBe(1);
+    expect(first.activity).toEqual(['click']);
+    expect(second.activity).toEqual(['click', 'keydown']);
+
+    b.detach();
+    document.dispatchEvent(new Event('click'));
+    expect(SharedDomEnvironment.hubCount()).toBe(0);
+    expect(second.activity).toEqual(['click', 'keydown']);
+  });
+
+  it('keeps separate listeners for different options', () => {
+    const a = new SharedDomEnvironment({ activityThrottle: 0 });
+    const b = new SharedDomEnvironment({ activityThrottle: 0, excludeActivityEvents: ['mousemove'] });
+
+    a.attach(createSignals().signals);
+    b.attach(createSignals().signals);
+    expect(SharedDomEnvironment.hubCount()).toBe(2);
+
+    a.detach();
+    b.detach();
+    expect(SharedDomEnvironment.hubCount()).toBe(0);
+  });
+
+  it('is shared by named instances and torn down when both are destroyed', async () => {
+    const time = new VirtualTime(Date.UTC(2024, 0, 1));
+    const config = { clock: time, scheduler: time, activity: { detectors: [] } };
+    const a = await createSessionLifecycle({ name: 'a', ...config });
+    const b = await createSessionLifecycle({ name: 'b', ...config });
+    a.on_session_start(() => undefined);
+    b.on_session_start(() => undefined);
+    time.advance(0);
+
+    expect(SharedDomEnvironment.hubCount()).toBe(1);
+
+    await destroySessionLifecycle('a');
+    expect(SharedDomEnvironment.hubCount()).toBe(1);
+
+    await destroySessionLifecycle('b');
+    expect(SharedDomEnvironment.hubCount()).toBe(0);
+  });
+});
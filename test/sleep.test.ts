@@ -0,0 +1,122 @@
+import { Clock, MonotonicClock, VirtualTime } from '../src';
+import { createLifecycle } from './helpers';
+
+/**
+ * Clock whose wall time can be shifted while its monotonic time follows `time`
+ */
+function createShiftableClock(time: VirtualTime) {
+  let offset = 0;
+  const clock: Clock & { monotonic(): number } = {
+    now: () => time.now() + offset,
+    monotonic: () => time.now()
+  };
+  return { clock, shift: (ms: number) => { offset += ms; } };
+}
+
+/**
+ * Clock whose monotonic time stops while `time` is suspended, as performance.now()
+ * does on some platforms
+ */
+function createSuspendingClock(time: VirtualTime) {
+  let stopped = 0;
+  const clock: Clock & { monotonic(): number } = {
+    now: () => time.now(),
+    monotonic: () => time.now() - stopped
+  };
+  return {
+    clock,
+    suspend: (ms: number) => {
+      time.suspend(ms);
+      stopped += ms;
+    }
+  };
+}
+
+describe('MonotonicClock', () => {
+  it('ignores wall-clock jumps in both directions', () => {
+    const time = new VirtualTime(Date.UTC(2024, 0, 1));
+    const { clock, shift } = createShiftableClock(time);
+    const monotonic = new MonotonicClock(clock);
+    const start = monotonic.now();
+
+    time.advance(1000);
+    shift(3600000);
+    expect(monotonic.now()).toBe(start + 1000);
+
+    time.advance(1000);
+    shift(-7200000);
+    expect(monotonic.now()).toBe(start + 2000);
+  });
+
+  it('reports integer milliseconds for a fractional monotonic source', () => {
+    let monotonic = 10.25;
+    const clock = new MonotonicClock({ now: () => 1000, monotonic: () => monotonic });
+
+    monotonic = 4008.74;
+
+    expect(clock.now()).toBe(4998);
+  });
+});
+
+describe('system sleep', () => {
+  it('ends the session at the last heartbeat when the heartbeat timer fires late', () => {
+    const { time, environment, payloads } = createLifecycle({ heartbeatInterval: 30000 });
+    const startTime = time.now();
+
+    time.advance(30000);
+    time.suspend(600000);
+    time.advance(0);
+
+    const end = payloads('session_end');
+    expect(end).toHaveLength(1);
+    expect(end[0]).toMatchObject({ reason: 'system_sleep', total_duration: 30000 });
+    expect(payloads('session_start')[1]).toMatchObject({ type: 'active', reason: 'system_wake' });
+    expect(payloads('session_start')[1].timestamp - startTime).toBe(630000);
+    expect(environment.attached).toBe(true);
+  });
+
+  it('detects an overdue heartbeat on activity before the timer runs', () => {
+    const { time, environment, payloads, names } = createLifecycle({ heartbeatInterval: 30000 });
+
+    time.advance(10000);
+    time.suspend(600000);
+    environment.activity();
+
+    expect(names()).toEqual(['session_start', 'session_end', 'session_start']);
+    expect(payloads('session_end')[0]).toMatchObject({ reason: 'system_sleep' });
+  });
+
+  it('does not treat a wall-clock adjustment below the sleep threshold as sleep', () => {
+    const time = new VirtualTime(Date.UTC(2024, 0, 1));
+    const { clock, shift } = createShiftableClock(time);
+    const { payloads } = createLifecycle({ heartbeatInterval: 30000, clock }, time);
+
+    time.advance(10000);
+    shift(60000);
+    time.advance(20000);
+    shift(-3600000);
+    time.advance(30000);
+
+    expect(payloads('session_end')).toHaveLength(0);
+    expect(payloads('session_life').map(data => data.total_duration)).toEqual([30000, 60000]);
+  });
+
+  it('detects a sleep during which monotonic time stopped and re-anchors the clock', () => {
+    const time = new VirtualTime(Date.UTC(2024, 0, 1));
+    const { clock, suspend } = createSuspendingClock(time);
+    const { lifecycle, payloads } = createLifecycle({ heartbeatInterval: 30000, clock }, time);
+    const startTime = time.now();
+
+    time.advance(30000);
+    suspend(600000);
+    time.advance(0);
+
+    expect(payloads('session_end')).toHaveLength(1);
+    expect(payloads('session_end')[0]).toMatchObject({ reason: 'system_sleep', total_duration: 30000 });
+    expect(payloads('session_start')[1]).toMatchObject({ reason: 'system_wake', timestamp: startTime + 630000 });
+
+    time.advance(30000);
+    expect(payloads('session_life').pop()).toMatchObject({ timestamp: startTime + 660000, total_duration: 30000 });
+    expect(lifecycle.getSessionId()).toBe(payloads('session_start')[1].session_id);
+  });
+});
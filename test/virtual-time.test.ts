@@ -0,0 +1,40 @@
+import { VirtualTime } from '../src';
+
+describe('VirtualTime', () => {
+  it('runs timers in due order with now() set to their due time', () => {
+    const time = new VirtualTime(1000);
+    const calls: Array<[string, number]> = [];
+
+    time.setTimeout(() => calls.push(['b', time.now()]), 200);
+    time.setTimeout(() => calls.push(['a', time.now()]), 100);
+    time.advance(500);
+
+    expect(calls).toEqual([['a', 1100], ['b', 1200]]);
+    expect(time.now()).toBe(1500);
+  });
+
+  it('repeats intervals until cleared', () => {
+    const time = new VirtualTime();
+    let count = 0;
+
+    const handle = time.setInterval(() => count++, 100);
+    time.advance(350);
+    time.clearInterval(handle);
+    time.advance(1000);
+
+    expect(count).toBe(3);
+    expect(time.pendingTimers()).toBe(0);
+  });
+
+  it('fires timers due during suspend() once on the next advance()', () => {
+    const time = new VirtualTime();
+    const calls: number[] = [];
+
+    time.setTimeout(() => calls.push(time.now()), 100);
+    time.suspend(10000);
+    expect(calls).toEqual([]);
+
+    time.advance(0);
+    expect(calls).toEqual([10000]);
+  });
+});